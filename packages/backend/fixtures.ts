@@ -0,0 +1,117 @@
+/**
+ * Backend test data - factories for backend users and items, and a seeder
+ * that fills the repositories for load testing.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Go to Definition" on Factory navigates to the shared package
+ * - "Find References" on createBackendUser shows the factory
+ * - Rename seedBackend and see callers update
+ */
+
+import { Factory, FakeData, ownedBy, userDtoFactory, itemDtoFactory } from 'shared/fixtures';
+import type { BackendUser, BackendItem } from './models.js';
+import { createBackendUser, createBackendItem } from './models.js';
+import type { UserStore, ItemStore } from './repository.js';
+
+/** Placeholder hash given to generated users; no password verifies against it */
+export const FAKE_PASSWORD_HASH = 'hashed_fixture';
+
+/** Factory for backend users: unverified users that have never logged in by default */
+export function backendUserFactory(fake: FakeData = new FakeData()): Factory<BackendUser> {
+  const dtos = userDtoFactory(fake);
+  return new Factory(() => {
+    const dto = dtos.build();
+    return createBackendUser(dto.email, dto.name, FAKE_PASSWORD_HASH, dto.role);
+  }, fake);
+}
+
+/** Factory for backend items; the owner is a generated id unless set (see ownedBy) */
+export function backendItemFactory(fake: FakeData = new FakeData()): Factory<BackendItem> {
+  const dtos = itemDtoFactory(fake);
+  return new Factory(data => {
+    const dto = dtos.build();
+    return {
+      ...createBackendItem(dto.title, dto.description, dto.ownerId, dto.status),
+      views: dto.status === 'published' ? data.int(0, 5000) : 0,
+    };
+  }, fake);
+}
+
+/** Factories for the backend models, sharing one seeded data source */
+export interface BackendFactories {
+  fake: FakeData;
+  users: Factory<BackendUser>;
+  items: Factory<BackendItem>;
+}
+
+/** Creates the backend factories for a seed */
+export function createBackendFactories(seed: number = 1): BackendFactories {
+  const fake = new FakeData(seed);
+  return { fake, users: backendUserFactory(fake), items: backendItemFactory(fake) };
+}
+
+/** Builds a user together with the items they own */
+export function buildUserWithItems(
+  factories: BackendFactories,
+  itemCount: number,
+  user: Partial<BackendUser> = {}
+): { user: BackendUser; items: BackendItem[] } {
+  const owner = factories.users.build(user);
+  return { user: owner, items: ownedBy(factories.items, owner, itemCount) };
+}
+
+/** Repositories the backend seeder writes to */
+export interface BackendSeedRepositories {
+  users: UserStore;
+  items: ItemStore;
+}
+
+/** Options for seedBackend */
+export interface BackendSeedOptions {
+  /** Number of users (defaults to 100) */
+  users?: number;
+  /** Most items a user owns; each user gets 0 to this many (defaults to 10) */
+  maxItemsPerUser?: number;
+  /** Seed for the generated data (defaults to 1) */
+  seed?: number;
+}
+
+/** Counts of seeded entities */
+export interface BackendSeedReport {
+  seed: number;
+  users: number;
+  items: number;
+}
+
+/**
+ * Fills the repositories with generated users and the items they own.
+ * Fails with the first save error.
+ */
+export async function seedBackend(
+  repositories: BackendSeedRepositories,
+  options: BackendSeedOptions = {}
+): Promise<BackendSeedReport> {
+  const { users = 100, maxItemsPerUser = 10, seed = 1 } = options;
+  const factories = createBackendFactories(seed);
+  let items = 0;
+
+  for (let index = 0; index < users; index++) {
+    const generated = buildUserWithItems(factories, factories.fake.int(0, maxItemsPerUser), {
+      isVerified: factories.fake.bool(0.8),
+      role: factories.fake.bool(0.05) ? 'admin' : 'user',
+    });
+    const saved = await repositories.users.save(generated.user);
+    if (!saved.ok) {
+      throw new Error(saved.error ?? 'Failed to save user');
+    }
+    for (const item of generated.items) {
+      const result = await repositories.items.save(item);
+      if (!result.ok) {
+        throw new Error(result.error ?? 'Failed to save item');
+      }
+    }
+    items += generated.items.length;
+  }
+
+  return { seed, users, items };
+}
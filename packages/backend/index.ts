@@ -4,7 +4,13 @@
 
 export * from './models.js';
 export * from './repository.js';
+export * from './persistence.js';
+export * from './unitOfWork.js';
+export * from './sqlite.js';
 export * from './services.js';
+export * from './logger.js';
+export * from './tracing.js';
+export * from './fixtures.js';
 
 // Re-export commonly used shared types for convenience
 export type { 
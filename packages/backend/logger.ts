@@ -0,0 +1,135 @@
+/**
+ * Backend logger - JSON-lines implementation of the Logger interface.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Go to Definition" on Logger navigates to the unused package
+ * - "Find Implementations" of Logger includes BackendLogger
+ * - Rename redactSecrets and see the logger update
+ */
+
+import type { Logger, LogLevel } from 'unused/interfaces';
+import { getClock } from 'shared/clock';
+
+/** Numeric severity of each level */
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  fatal: 50,
+};
+
+/** Replacement for redacted values */
+export const REDACTED = '[REDACTED]';
+
+/** Field names whose values are never logged, e.g. BackendUser.passwordHash */
+export const SENSITIVE_FIELDS = /passw(or)?d|secret|token|authorization|api[-_]?key|cookie/i;
+
+/** Options for BackendLogger */
+export interface BackendLoggerOptions {
+  /** Least severe level that is written (defaults to `info`) */
+  level?: LogLevel;
+  /** Destination for log lines (defaults to console.log) */
+  write?: (line: string) => void;
+  /** Fields added to every record */
+  bindings?: Record<string, unknown>;
+}
+
+/**
+ * Returns a JSON-safe copy of a value with sensitive fields and bearer tokens
+ * replaced; only a cycle becomes `[Circular]`, not an object referenced twice
+ */
+export function redactSecrets(value: unknown, ancestors: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\b(Bearer)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (ancestors.has(value)) {
+    return '[Circular]';
+  }
+  ancestors.add(value);
+  try {
+    if (value instanceof Error) {
+      return { name: value.name, message: redactSecrets(value.message, ancestors) };
+    }
+    if (Array.isArray(value)) {
+      return value.map(entry => redactSecrets(entry, ancestors));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) {
+        result[key] = SENSITIVE_FIELDS.test(key) ? REDACTED : redactSecrets(entry, ancestors);
+      }
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/** Logger writing one JSON object per line */
+export class BackendLogger implements Logger {
+  private readonly level: LogLevel;
+  private readonly write: (line: string) => void;
+  private readonly bindings: Record<string, unknown>;
+
+  constructor(options: BackendLoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.write = options.write ?? (line => console.log(line));
+    this.bindings = options.bindings ?? {};
+  }
+
+  /** Creates a logger that adds the bindings (e.g. a correlation id) to every record */
+  child(bindings: Record<string, unknown>): BackendLogger {
+    return new BackendLogger({
+      level: this.level,
+      write: this.write,
+      bindings: { ...this.bindings, ...bindings },
+    });
+  }
+
+  log(level: LogLevel, message: string, meta: Record<string, unknown> = {}): void {
+    if (LEVEL_SEVERITY[level] < LEVEL_SEVERITY[this.level]) {
+      return;
+    }
+    const fields = redactSecrets({ ...this.bindings, ...meta }) as Record<string, unknown>;
+    const head = { time: getClock().now().toISOString(), level, message: redactSecrets(message) };
+    // Spreading the head again keeps it first in the line and stops fields replacing it
+    this.write(JSON.stringify({ ...head, ...fields, ...head }));
+  }
+
+  debug(message: string, meta?: Record<string, unknown>): void {
+    this.log('debug', message, meta);
+  }
+
+  info(message: string, meta?: Record<string, unknown>): void {
+    this.log('info', message, meta);
+  }
+
+  warn(message: string, meta?: Record<string, unknown>): void {
+    this.log('warn', message, meta);
+  }
+
+  error(message: string, meta?: Record<string, unknown>): void {
+    this.log('error', message, meta);
+  }
+
+  fatal(message: string, meta?: Record<string, unknown>): void {
+    this.log('fatal', message, meta);
+  }
+}
+
+/** Logger that discards every record */
+export const silentLogger: Logger = {
+  log: () => undefined,
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
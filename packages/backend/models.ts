@@ -12,6 +12,8 @@ import type {
   ItemDto 
 } from 'shared/types';
 import { createEntityFields, touchEntity } from 'shared/utils';
+import type { Clock } from 'shared/clock';
+import { getClock } from 'shared/clock';
 
 /** Backend user model with additional server-side fields */
 export interface BackendUser extends UserDto {
@@ -28,6 +30,12 @@ export interface BackendItem extends ItemDto {
   internalNotes?: string;
 }
 
+/** Optional Date fields of BackendUser, for revival by JsonFilePersistence */
+export const BACKEND_USER_DATE_FIELDS = ['lastLoginAt'];
+
+/** Optional Date fields of BackendItem, for revival by JsonFilePersistence */
+export const BACKEND_ITEM_DATE_FIELDS = ['lastViewedAt'];
+
 /** Creates a new backend user */
 export function createBackendUser(
   email: string,
@@ -64,21 +72,21 @@ export function createBackendItem(
 }
 
 /** Records a user login */
-export function recordUserLogin(user: BackendUser): BackendUser {
+export function recordUserLogin(user: BackendUser, clock: Clock = getClock()): BackendUser {
   return touchEntity({
     ...user,
-    lastLoginAt: new Date(),
+    lastLoginAt: clock.now(),
     loginCount: user.loginCount + 1,
-  });
+  }, clock);
 }
 
 /** Records an item view */
-export function recordItemView(item: BackendItem): BackendItem {
+export function recordItemView(item: BackendItem, clock: Clock = getClock()): BackendItem {
   return touchEntity({
     ...item,
     views: item.views + 1,
-    lastViewedAt: new Date(),
-  });
+    lastViewedAt: clock.now(),
+  }, clock);
 }
 
 /** Converts BackendUser to UserDto (strips sensitive fields) */
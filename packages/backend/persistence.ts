@@ -0,0 +1,99 @@
+/**
+ * Repository persistence - stores the contents of an InMemoryRepository in
+ * a JSON file, written atomically.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find Implementations" of EntityPersistence shows JsonFilePersistence
+ * - "Go to Definition" on SharedEntity navigates to the shared package
+ * - Rename persist and see the repository update
+ */
+
+import { mkdir, open, readFile, rename, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { SharedEntity } from 'shared/types';
+
+/** Durable storage behind an InMemoryRepository */
+export interface EntityPersistence<T extends SharedEntity> {
+  /** Reads every stored entity */
+  load(): Promise<T[]>;
+  /**
+   * Stores the repository contents. The snapshot is taken when the write
+   * runs, so the last of several queued writes stores the latest state.
+   */
+  persist(snapshot: () => T[]): Promise<void>;
+}
+
+/** Options for JsonFilePersistence */
+export interface JsonFilePersistenceOptions {
+  /** Fields revived as Dates on load, besides createdAt and updatedAt (e.g. `lastLoginAt`) */
+  dateFields?: string[];
+}
+
+/** Counter making temp file names unique within the process */
+let tempFileCounter = 0;
+
+/**
+ * Writes a file atomically via a temp file in the same directory that is
+ * flushed to disk and renamed over the target.
+ */
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+  try {
+    const handle = await open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/** Persists entities as a JSON array; writes run one at a time */
+export class JsonFilePersistence<T extends SharedEntity> implements EntityPersistence<T> {
+  private tail: Promise<void> = Promise.resolve();
+  private readonly dateFields: string[];
+
+  constructor(
+    readonly filePath: string,
+    options: JsonFilePersistenceOptions = {}
+  ) {
+    this.dateFields = ['createdAt', 'updatedAt', ...(options.dateFields ?? [])];
+  }
+
+  /** Reads the file; a missing file holds no entities */
+  async load(): Promise<T[]> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const parsed: unknown = JSON.parse(text, this.reviveDate);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${this.filePath} does not contain an array of entities`);
+    }
+    return parsed as T[];
+  }
+
+  persist(snapshot: () => T[]): Promise<void> {
+    const write = async (): Promise<void> => {
+      await writeFileAtomic(this.filePath, JSON.stringify(snapshot(), null, 2));
+    };
+    const result = this.tail.then(write, write);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  /** JSON.parse reviver turning the stored ISO strings of date fields back into Dates */
+  private readonly reviveDate = (key: string, value: unknown): unknown =>
+    typeof value === 'string' && this.dateFields.includes(key) ? new Date(value) : value;
+}
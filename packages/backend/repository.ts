@@ -18,22 +18,113 @@ import {
   paginate, 
   touchEntity 
 } from 'shared/utils';
+import type { Predicate, Query, StreamOptions } from 'shared/query';
+import { applyQuery, countMatching, fieldsOf, streamEntities } from 'shared/query';
 import type { BackendUser, BackendItem } from './models.js';
+import type { EntityPersistence } from './persistence.js';
+import type { Logger } from 'unused/interfaces';
+import { silentLogger } from './logger.js';
 
 /** Generic repository interface */
 export interface Repository<T extends SharedEntity> {
   findById(id: string): Promise<Result<T>>;
   findAll(): Promise<Result<T[]>>;
   findPaginated(params: PaginationParams): Promise<Result<PaginatedResponse<T>>>;
+  /** Entities matching a query, sorted and sliced as it asks */
+  find(query?: Query<T>): Promise<Result<T[]>>;
+  /** Number of entities matching a predicate (all entities without one) */
+  count(where?: Predicate<T>): Promise<Result<number>>;
+  /** Streams the matching entities in storage order, reading them in batches; a failed read throws */
+  stream(options?: StreamOptions<T>): AsyncIterable<T>;
   save(entity: T): Promise<Result<T>>;
   delete(id: string): Promise<Result<void>>;
 }
 
-/** In-memory repository implementation */
+/** User storage: a repository with user queries */
+export interface UserStore extends Repository<BackendUser> {
+  findByEmail(email: string): Promise<Result<BackendUser>>;
+  findByRole(role: BackendUser['role']): Promise<Result<BackendUser[]>>;
+  findVerified(): Promise<Result<BackendUser[]>>;
+}
+
+/** Item storage: a repository with item queries */
+export interface ItemStore extends Repository<BackendItem> {
+  findByOwner(ownerId: string): Promise<Result<BackendItem[]>>;
+  findByStatus(status: BackendItem['status']): Promise<Result<BackendItem[]>>;
+  findMostViewed(limit: number): Promise<Result<BackendItem[]>>;
+}
+
+/** What a before hook returns: nothing to go ahead, or a Result whose error vetoes the operation */
+export type HookOutcome<T> = void | Result<T> | Promise<void | Result<T>>;
+
+/**
+ * Runs before an entity is saved, with the stored version (undefined for a
+ * new entity). It may change the entity in place or return a success Result
+ * holding the entity to save instead.
+ */
+export type BeforeSaveHook<T> = (entity: T, previous: T | undefined) => HookOutcome<T>;
+
+/** Runs once a save is stored and persisted, with the saved entity */
+export type AfterSaveHook<T> = (entity: T, previous: T | undefined) => void | Promise<void>;
+
+/** Runs before an entity is deleted, with the stored entity */
+export type BeforeDeleteHook<T> = (entity: T) => HookOutcome<void>;
+
+/** Runs once a delete is stored and persisted, with the deleted entity */
+export type AfterDeleteHook<T> = (entity: T) => void | Promise<void>;
+
+/**
+ * In-memory repository implementation.
+ * With a persistence, the store is loaded on first use and written out after
+ * every change; a change that cannot be persisted is undone. Saves and deletes
+ * run one at a time, from their before hooks to their write, so undoing one
+ * cannot overwrite another's change.
+ *
+ * Lifecycle hooks run in registration order. A save runs the beforeSave
+ * hooks, each seeing the entity as the previous one left it, then stamps
+ * updatedAt, stores and persists the entity, and runs the afterSave hooks;
+ * a delete does the same with beforeDelete and afterDelete. The first before
+ * hook to return an error Result vetoes the operation and its error is
+ * returned, as does a beforeSave hook changing the entity's id. Before hooks
+ * must not save to or delete from their own repository, which would wait on
+ * itself. After hooks run once the change is done and cannot undo it: one
+ * that throws is logged, the remaining hooks still run, and the operation
+ * succeeds.
+ */
 export class InMemoryRepository<T extends SharedEntity> implements Repository<T> {
   protected store: Map<string, T> = new Map();
+  private loading: Promise<void> | null = null;
+  private changes: Promise<unknown> = Promise.resolve();
+  private readonly beforeSaveHooks: BeforeSaveHook<T>[] = [];
+  private readonly afterSaveHooks: AfterSaveHook<T>[] = [];
+  private readonly beforeDeleteHooks: BeforeDeleteHook<T>[] = [];
+  private readonly afterDeleteHooks: AfterDeleteHook<T>[] = [];
+
+  constructor(
+    protected readonly persistence?: EntityPersistence<T>,
+    private readonly logger: Logger = silentLogger
+  ) {}
+
+  /** Loads the store from the persistence (once; later calls reuse the first load) */
+  load(): Promise<void> {
+    if (!this.persistence) {
+      return Promise.resolve();
+    }
+    this.loading ??= this.persistence.load().then(
+      entities => {
+        this.store = new Map(entities.map(entity => [entity.id, entity]));
+      },
+      error => {
+        // Allow a retry after a failed load
+        this.loading = null;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
 
   async findById(id: string): Promise<Result<T>> {
+    await this.load();
     const entity = this.store.get(id);
     if (!entity) {
       return createError(`Entity with id ${id} not found`);
@@ -42,67 +133,211 @@ export class InMemoryRepository<T extends SharedEntity> implements Repository<T>
   }
 
   async findAll(): Promise<Result<T[]>> {
+    await this.load();
     return createSuccess(Array.from(this.store.values()));
   }
 
   async findPaginated(params: PaginationParams): Promise<Result<PaginatedResponse<T>>> {
+    await this.load();
     const items = Array.from(this.store.values());
     return createSuccess(paginate(items, params));
   }
 
+  async find(query?: Query<T>): Promise<Result<T[]>> {
+    await this.load();
+    return createSuccess(applyQuery(Array.from(this.store.values()), query));
+  }
+
+  async count(where?: Predicate<T>): Promise<Result<number>> {
+    await this.load();
+    return createSuccess(countMatching(Array.from(this.store.values()), where));
+  }
+
+  async *stream(options?: StreamOptions<T>): AsyncGenerator<T> {
+    await this.load();
+    yield* streamEntities(this.store.values(), options);
+  }
+
   async save(entity: T): Promise<Result<T>> {
-    const updated = touchEntity(entity);
-    this.store.set(updated.id, updated);
-    return createSuccess(updated);
+    const stored = await this.serially(() => this.storeSave(entity));
+    if (!stored.ok || !stored.value) {
+      return createError(stored.error ?? 'Save rejected');
+    }
+    const { saved, previous } = stored.value;
+    await this.runAfterHooks('afterSave', saved.id, this.afterSaveHooks, hook => hook(saved, previous));
+    return createSuccess(saved);
   }
 
   async delete(id: string): Promise<Result<void>> {
-    if (!this.store.has(id)) {
+    const deleted = await this.serially(() => this.storeDelete(id));
+    if (!deleted.ok || !deleted.value) {
+      return createError(deleted.error ?? 'Delete rejected');
+    }
+    const previous = deleted.value;
+    await this.runAfterHooks('afterDelete', id, this.afterDeleteHooks, hook => hook(previous));
+    return createSuccess(undefined);
+  }
+
+  /** Registers a hook run before every save */
+  beforeSave(hook: BeforeSaveHook<T>): this {
+    this.beforeSaveHooks.push(hook);
+    return this;
+  }
+
+  /** Registers a hook run after every successful save */
+  afterSave(hook: AfterSaveHook<T>): this {
+    this.afterSaveHooks.push(hook);
+    return this;
+  }
+
+  /** Registers a hook run before every delete of a stored entity */
+  beforeDelete(hook: BeforeDeleteHook<T>): this {
+    this.beforeDeleteHooks.push(hook);
+    return this;
+  }
+
+  /** Registers a hook run after every successful delete */
+  afterDelete(hook: AfterDeleteHook<T>): this {
+    this.afterDeleteHooks.push(hook);
+    return this;
+  }
+
+  /** Runs a change after every previously queued one; a failed change does not stop later ones */
+  private serially<R>(change: () => Promise<R>): Promise<R> {
+    const result = this.changes.then(change, change);
+    this.changes = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Runs the beforeSave hooks, then stores and persists the entity; the result also holds the old version */
+  private async storeSave(entity: T): Promise<Result<{ saved: T; previous: T | undefined }>> {
+    await this.load();
+    const previous = this.store.get(entity.id);
+    const prepared = await this.runBeforeSave({ ...entity }, previous);
+    if (!prepared.ok || !prepared.value) {
+      return createError(prepared.error ?? 'Save rejected');
+    }
+    const saved = touchEntity(prepared.value);
+    this.store.set(saved.id, saved);
+    const persisted = await this.persist();
+    if (!persisted.ok) {
+      this.store.delete(saved.id);
+      if (previous) {
+        this.store.set(entity.id, previous);
+      }
+      return createError(persisted.error ?? 'Failed to persist');
+    }
+    return createSuccess({ saved, previous });
+  }
+
+  /** Runs the beforeDelete hooks, then removes and persists; the result holds the removed entity */
+  private async storeDelete(id: string): Promise<Result<T>> {
+    await this.load();
+    const previous = this.store.get(id);
+    if (!previous) {
       return createError(`Entity with id ${id} not found`);
     }
+    for (const hook of this.beforeDeleteHooks) {
+      const outcome = await hook(previous);
+      if (outcome && !outcome.ok) {
+        return createError(outcome.error ?? 'Delete rejected');
+      }
+    }
     this.store.delete(id);
-    return createSuccess(undefined);
+    const persisted = await this.persist();
+    if (!persisted.ok) {
+      this.store.set(id, previous);
+      return createError(persisted.error ?? 'Failed to persist');
+    }
+    return createSuccess(previous);
+  }
+
+  /** Passes an entity through the beforeSave hooks; the result holds the entity to save */
+  private async runBeforeSave(entity: T, previous: T | undefined): Promise<Result<T>> {
+    let current = entity;
+    for (const hook of this.beforeSaveHooks) {
+      const outcome = await hook(current, previous);
+      if (outcome && !outcome.ok) {
+        return createError(outcome.error ?? 'Save rejected');
+      }
+      if (outcome?.value) {
+        current = outcome.value;
+      }
+      // The store and the rollback of a failed persist are keyed by the original id
+      if (current.id !== entity.id) {
+        return createError('A beforeSave hook may not change the entity id');
+      }
+    }
+    return createSuccess(current);
+  }
+
+  /** Runs after hooks for a stored change, logging rather than propagating their errors */
+  private async runAfterHooks<H>(
+    stage: string,
+    id: string,
+    hooks: H[],
+    run: (hook: H) => void | Promise<void>
+  ): Promise<void> {
+    for (const hook of hooks) {
+      try {
+        await run(hook);
+      } catch (error) {
+        this.logger.error('Repository hook failed; the change stands', { stage, id, error });
+      }
+    }
+  }
+
+  /** Writes the store out, if there is a persistence */
+  private async persist(): Promise<Result<void>> {
+    if (!this.persistence) {
+      return createSuccess(undefined);
+    }
+    try {
+      await this.persistence.persist(() => Array.from(this.store.values()));
+      return createSuccess(undefined);
+    } catch (error) {
+      return createError(`Failed to persist: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 }
 
+/** Condition builders for user queries */
+const userFields = fieldsOf<BackendUser>();
+
+/** Condition builders for item queries */
+const itemFields = fieldsOf<BackendItem>();
+
 /** User repository with additional queries */
-export class UserRepository extends InMemoryRepository<BackendUser> {
+export class UserRepository extends InMemoryRepository<BackendUser> implements UserStore {
   async findByEmail(email: string): Promise<Result<BackendUser>> {
-    for (const user of this.store.values()) {
-      if (user.email === email) {
-        return createSuccess(user);
-      }
+    const found = await this.find({ where: userFields.eq('email', email), limit: 1 });
+    const user = found.value?.[0];
+    if (!user) {
+      return createError(`User with email ${email} not found`);
     }
-    return createError(`User with email ${email} not found`);
+    return createSuccess(user);
   }
 
   async findByRole(role: BackendUser['role']): Promise<Result<BackendUser[]>> {
-    const users = Array.from(this.store.values()).filter(u => u.role === role);
-    return createSuccess(users);
+    return this.find({ where: userFields.eq('role', role) });
   }
 
   async findVerified(): Promise<Result<BackendUser[]>> {
-    const users = Array.from(this.store.values()).filter(u => u.isVerified);
-    return createSuccess(users);
+    return this.find({ where: userFields.eq('isVerified', true) });
   }
 }
 
 /** Item repository with additional queries */
-export class ItemRepository extends InMemoryRepository<BackendItem> {
+export class ItemRepository extends InMemoryRepository<BackendItem> implements ItemStore {
   async findByOwner(ownerId: string): Promise<Result<BackendItem[]>> {
-    const items = Array.from(this.store.values()).filter(i => i.ownerId === ownerId);
-    return createSuccess(items);
+    return this.find({ where: itemFields.eq('ownerId', ownerId) });
   }
 
   async findByStatus(status: BackendItem['status']): Promise<Result<BackendItem[]>> {
-    const items = Array.from(this.store.values()).filter(i => i.status === status);
-    return createSuccess(items);
+    return this.find({ where: itemFields.eq('status', status) });
   }
 
   async findMostViewed(limit: number): Promise<Result<BackendItem[]>> {
-    const items = Array.from(this.store.values())
-      .sort((a, b) => b.views - a.views)
-      .slice(0, limit);
-    return createSuccess(items);
+    return this.find({ sort: [{ field: 'views', order: 'desc' }], limit });
   }
 }
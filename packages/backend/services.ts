@@ -34,7 +34,11 @@ import {
   toUserDto, 
   toItemDto 
 } from './models.js';
-import type { UserRepository, ItemRepository } from './repository.js';
+import type { UserStore, ItemStore } from './repository.js';
+import { runInUnitOfWork } from './unitOfWork.js';
+import { getClock } from 'shared/clock';
+import type { Logger } from 'unused/interfaces';
+import { silentLogger } from './logger.js';
 
 /** Event emitter type */
 type EventEmitter<T> = (event: SharedEvent<T>) => void;
@@ -43,7 +47,10 @@ type EventEmitter<T> = (event: SharedEvent<T>) => void;
 export class UserService {
   private eventEmitters: EventEmitter<UserDto>[] = [];
 
-  constructor(private readonly repository: UserRepository) {}
+  constructor(
+    private readonly repository: UserStore,
+    private readonly logger: Logger = silentLogger
+  ) {}
 
   /** Registers a new user */
   async registerUser(
@@ -55,12 +62,14 @@ export class UserService {
     // Validate input
     const validation = validateUserDto({ email, name, role });
     if (!validation.ok) {
+      this.logger.warn('User registration rejected', { email, errors: validation.errors });
       return createError(`Validation failed: ${validation.errors?.map((e: ValidationError) => e.message).join(', ')}`);
     }
 
     // Check email uniqueness
     const existing = await this.repository.findByEmail(email);
     if (existing.ok) {
+      this.logger.warn('User registration rejected: email already in use', { email });
       return createError('Email already in use');
     }
 
@@ -70,10 +79,12 @@ export class UserService {
     
     const saveResult = await this.repository.save(user);
     if (!saveResult.ok) {
+      this.logger.error('Failed to save user', { user, error: saveResult.error });
       return createError(saveResult.error ?? 'Failed to save user');
     }
 
     const dto = toUserDto(unwrapResult(saveResult));
+    this.logger.info('User registered', { userId: dto.id, role: dto.role });
     this.emitEvent('created', dto);
     return createSuccess(dto);
   }
@@ -82,18 +93,21 @@ export class UserService {
   async authenticateUser(email: string, password: string): Promise<Result<UserDto>> {
     const userResult = await this.repository.findByEmail(email);
     if (!userResult.ok) {
+      this.logger.warn('Authentication failed: unknown email', { email });
       return createError('Invalid credentials');
     }
 
     const user = unwrapResult(userResult);
     const validPassword = await this.verifyPassword(password, user.passwordHash);
     if (!validPassword) {
+      this.logger.warn('Authentication failed: wrong password', { userId: user.id });
       return createError('Invalid credentials');
     }
 
     // Record login
     const updatedUser = recordUserLogin(user);
     await this.repository.save(updatedUser);
+    this.logger.info('User authenticated', { userId: user.id, loginCount: updatedUser.loginCount });
 
     return createSuccess(toUserDto(updatedUser));
   }
@@ -136,10 +150,12 @@ export class UserService {
 
     const saveResult = await this.repository.save(updated);
     if (!saveResult.ok) {
+      this.logger.error('Failed to update user', { user: updated, error: saveResult.error });
       return createError(saveResult.error ?? 'Failed to update user');
     }
 
     const dto = toUserDto(unwrapResult(saveResult));
+    this.logger.info('User updated', { userId: id, fields: Object.keys(updates) });
     this.emitEvent('updated', dto);
     return createSuccess(dto);
   }
@@ -155,12 +171,51 @@ export class UserService {
     const result = await this.repository.delete(id);
     
     if (result.ok) {
+      this.logger.info('User deleted', { userId: id });
       this.emitEvent('deleted', dto);
     }
     
     return result;
   }
 
+  /**
+   * Deletes a user and the items they own together: if any delete fails,
+   * none is kept. The deleted event is emitted once everything is committed.
+   */
+  async deleteUserWithItems(id: string, items: ItemStore): Promise<Result<number>> {
+    return runInUnitOfWork(async unitOfWork => {
+      const users = unitOfWork.track(this.repository);
+      const existingResult = await users.findById(id);
+      if (!existingResult.ok) {
+        return createError(existingResult.error ?? 'User not found');
+      }
+      const dto = toUserDto(unwrapResult(existingResult));
+
+      const ownedResult = await items.findByOwner(id);
+      if (!ownedResult.ok) {
+        return createError(ownedResult.error ?? 'Failed to load items');
+      }
+      const owned = unwrapResult(ownedResult);
+      const ownedItems = unitOfWork.track(items);
+      for (const item of owned) {
+        const deleted = await ownedItems.delete(item.id);
+        if (!deleted.ok) {
+          return createError(deleted.error ?? 'Failed to delete item');
+        }
+      }
+      const deleted = await users.delete(id);
+      if (!deleted.ok) {
+        return createError(deleted.error ?? 'Failed to delete user');
+      }
+
+      unitOfWork.afterCommit(() => {
+        this.logger.info('User deleted with items', { userId: id, itemCount: owned.length });
+        this.emitEvent('deleted', dto);
+      });
+      return createSuccess(owned.length);
+    });
+  }
+
   /** Subscribe to user events */
   onEvent(emitter: EventEmitter<UserDto>): void {
     this.eventEmitters.push(emitter);
@@ -170,7 +225,7 @@ export class UserService {
     const event: SharedEvent<UserDto> = {
       type,
       payload,
-      timestamp: new Date(),
+      timestamp: getClock().now(),
       source: 'backend',
     };
     this.eventEmitters.forEach(emit => emit(event));
@@ -190,7 +245,10 @@ export class UserService {
 export class ItemService {
   private eventEmitters: EventEmitter<ItemDto>[] = [];
 
-  constructor(private readonly repository: ItemRepository) {}
+  constructor(
+    private readonly repository: ItemStore,
+    private readonly logger: Logger = silentLogger
+  ) {}
 
   /** Creates a new item */
   async createItem(
@@ -202,6 +260,7 @@ export class ItemService {
     // Validate input
     const validation = validateItemDto({ title, description, ownerId, status });
     if (!validation.ok) {
+      this.logger.warn('Item creation rejected', { ownerId, errors: validation.errors });
       return createError(`Validation failed: ${validation.errors?.map((e: ValidationError) => e.message).join(', ')}`);
     }
 
@@ -209,10 +268,12 @@ export class ItemService {
     const saveResult = await this.repository.save(item);
     
     if (!saveResult.ok) {
+      this.logger.error('Failed to save item', { item, error: saveResult.error });
       return createError(saveResult.error ?? 'Failed to save item');
     }
 
     const dto = toItemDto(unwrapResult(saveResult));
+    this.logger.info('Item created', { itemId: dto.id, ownerId, status });
     this.emitEvent('created', dto);
     return createSuccess(dto);
   }
@@ -270,10 +331,12 @@ export class ItemService {
 
     const saveResult = await this.repository.save(updated);
     if (!saveResult.ok) {
+      this.logger.error('Failed to update item', { itemId: id, error: saveResult.error });
       return createError(saveResult.error ?? 'Failed to update item');
     }
 
     const dto = toItemDto(unwrapResult(saveResult));
+    this.logger.info('Item status changed', { itemId: id, from: existing.status, to: status });
     this.emitEvent('updated', dto);
     return createSuccess(dto);
   }
@@ -289,6 +352,7 @@ export class ItemService {
     const result = await this.repository.delete(id);
     
     if (result.ok) {
+      this.logger.info('Item deleted', { itemId: id });
       this.emitEvent('deleted', dto);
     }
     
@@ -304,7 +368,7 @@ export class ItemService {
     const event: SharedEvent<ItemDto> = {
       type,
       payload,
-      timestamp: new Date(),
+      timestamp: getClock().now(),
       source: 'backend',
     };
     this.eventEmitters.forEach(emit => emit(event));
@@ -0,0 +1,498 @@
+/**
+ * SQLite repositories - backend Repository implementations over Node's
+ * built-in node:sqlite driver, with queries, sorting and pagination in SQL.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find Implementations" of UserStore shows UserRepository and SqliteUserRepository
+ * - "Go to Definition" on PaginationParams navigates to the shared package
+ * - Rename SqliteTableDefinition and see both table definitions update
+ */
+
+import type { DatabaseSync, SQLInputValue, SQLOutputValue } from 'node:sqlite';
+import type { SharedEntity, Result, PaginationParams, PaginatedResponse } from 'shared/types';
+import { createSuccess, createError, paginate, touchEntity } from 'shared/utils';
+import type { FieldPath, Predicate, Query, QuerySort, QueryValue, StreamOptions } from 'shared/query';
+import { DEFAULT_STREAM_BATCH_SIZE, applyQuery, countMatching, fieldsOf, matches } from 'shared/query';
+import type { BackendUser, BackendItem } from './models.js';
+import type { Repository, UserStore, ItemStore } from './repository.js';
+
+/** A row as returned by node:sqlite */
+export type SqliteRow = Record<string, SQLOutputValue>;
+
+/** A column and how it is read from an entity */
+export interface SqliteColumnDefinition<T> {
+  name: string;
+  type: 'TEXT' | 'INTEGER' | 'REAL';
+  nullable?: boolean;
+  /** Entity field stored in the column, for queries and `sortBy` */
+  field: string;
+  /** The column holds ISO dates as TEXT, whose binary order is their time order */
+  date?: boolean;
+  value(entity: T): SQLInputValue;
+}
+
+/** How an entity type is stored */
+export interface SqliteTableDefinition<T extends SharedEntity> {
+  name: string;
+  /** Columns besides id, created_at and updated_at */
+  columns: SqliteColumnDefinition<T>[];
+  /** Indexes by name; each lists its columns */
+  indexes: Record<string, string[]>;
+  fromRow(row: SqliteRow): T;
+}
+
+/** A WHERE clause and its parameters */
+interface SqlFilter {
+  where: string;
+  params: SQLInputValue[];
+}
+
+/** Columns every entity table has */
+const ENTITY_COLUMNS: SqliteColumnDefinition<SharedEntity>[] = [
+  { name: 'id', type: 'TEXT', field: 'id', value: entity => entity.id },
+  {
+    name: 'created_at',
+    type: 'TEXT',
+    field: 'createdAt',
+    date: true,
+    value: entity => entity.createdAt.toISOString(),
+  },
+  {
+    name: 'updated_at',
+    type: 'TEXT',
+    field: 'updatedAt',
+    date: true,
+    value: entity => entity.updatedAt.toISOString(),
+  },
+];
+
+const SQL_OPERATORS = { lt: '<', lte: '<=', gt: '>', gte: '>=' } as const;
+
+/**
+ * Whether SQL orders a column as sorting in memory does. Strings are ordered
+ * with localeCompare in memory, which SQL's binary collation does not follow;
+ * ISO dates stored as text are the exception.
+ */
+function sortsInSql<T>(column: SqliteColumnDefinition<T>): boolean {
+  return column.type !== 'TEXT' || column.date === true;
+}
+
+/** Whether a string is ASCII only, the only characters SQLite's lower() folds as toLowerCase() does */
+function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+/** A query value as stored: Dates as ISO strings, booleans as 0 or 1 */
+function toSqlValue(value: Exclude<QueryValue, null>): SQLInputValue {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+/** Reads an optional ISO date column */
+function optionalDate(value: SQLOutputValue | undefined): Date | undefined {
+  return typeof value === 'string' ? new Date(value) : undefined;
+}
+
+/** Reads id, createdAt and updatedAt from a row */
+function entityFields(row: SqliteRow): SharedEntity {
+  return {
+    id: String(row['id']),
+    createdAt: new Date(String(row['created_at'])),
+    updatedAt: new Date(String(row['updated_at'])),
+  };
+}
+
+/** Opens a database (in memory by default); needs Node 22.5 or later */
+export async function openDatabase(location: string = ':memory:'): Promise<DatabaseSync> {
+  const { DatabaseSync } = await import('node:sqlite');
+  const database = new DatabaseSync(location);
+  if (location !== ':memory:') {
+    database.exec('PRAGMA journal_mode = WAL');
+  }
+  return database;
+}
+
+/**
+ * Repository storing entities in a SQLite table, created with its indexes
+ * on construction. Rows keep insertion order unless sorted.
+ * Queries are translated to SQL; one naming a field without a column, or
+ * using an operator the table cannot evaluate, is run in memory instead.
+ */
+export class SqliteRepository<T extends SharedEntity> implements Repository<T> {
+  private readonly columns: SqliteColumnDefinition<T>[];
+  private readonly columnsByField: Map<string, SqliteColumnDefinition<T>>;
+
+  constructor(
+    protected readonly database: DatabaseSync,
+    protected readonly table: SqliteTableDefinition<T>
+  ) {
+    this.columns = [...(ENTITY_COLUMNS as SqliteColumnDefinition<T>[]), ...table.columns];
+    this.columnsByField = new Map(this.columns.map(column => [column.field, column]));
+    this.createTable();
+  }
+
+  async findById(id: string): Promise<Result<T>> {
+    const entity = this.select({ where: 'id = ?', params: [id] })[0];
+    if (!entity) {
+      return createError(`Entity with id ${id} not found`);
+    }
+    return createSuccess(entity);
+  }
+
+  async findAll(): Promise<Result<T[]>> {
+    return createSuccess(this.select());
+  }
+
+  async findPaginated(params: PaginationParams): Promise<Result<PaginatedResponse<T>>> {
+    const sortColumn = this.columns.find(column => column.field === params.sortBy);
+    if (sortColumn && !sortsInSql(sortColumn)) {
+      const field = sortColumn.field as FieldPath<T>;
+      const sorted = applyQuery(this.select(), { sort: [{ field, order: params.sortOrder ?? 'asc' }] });
+      return createSuccess(paginate(sorted, params));
+    }
+    const total = this.countRows();
+    const direction = params.sortOrder === 'desc' ? 'DESC' : 'ASC';
+    const orderBy = sortColumn ? `${sortColumn.name} ${direction}` : undefined;
+    const items = this.select(undefined, orderBy, params.pageSize, (params.page - 1) * params.pageSize);
+    return createSuccess({
+      items,
+      total,
+      page: params.page,
+      pageSize: params.pageSize,
+      totalPages: Math.ceil(total / params.pageSize),
+    });
+  }
+
+  async find(query: Query<T> = {}): Promise<Result<T[]>> {
+    const filter = query.where ? this.compile(query.where) : undefined;
+    const orderBy = this.orderBy(query.sort ?? []);
+    if (filter === null || orderBy === null) {
+      return createSuccess(applyQuery(this.select(), query));
+    }
+    return createSuccess(this.select(filter, orderBy, query.limit, query.offset));
+  }
+
+  async count(where?: Predicate<T>): Promise<Result<number>> {
+    const filter = where ? this.compile(where) : undefined;
+    if (filter === null) {
+      return createSuccess(countMatching(this.select(), where));
+    }
+    return createSuccess(this.countRows(filter));
+  }
+
+  /** Reads the matches a batch at a time, resuming after the last rowid read */
+  async *stream(options: StreamOptions<T> = {}): AsyncGenerator<T> {
+    const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+    const compiled = options.where ? this.compile(options.where) : undefined;
+    // A predicate SQL cannot express is checked on each row instead
+    const check = compiled === null ? options.where : undefined;
+    const where = compiled ? `(${compiled.where}) AND rowid > ?` : 'rowid > ?';
+    const statement = this.database.prepare(
+      `SELECT rowid AS row_id, * FROM ${this.table.name} WHERE ${where} ORDER BY rowid LIMIT ?`
+    );
+    let lastRowid = 0;
+    for (;;) {
+      const rows = statement.all(...(compiled?.params ?? []), lastRowid, batchSize);
+      for (const row of rows) {
+        lastRowid = Number(row['row_id']);
+        const entity = this.table.fromRow(row);
+        if (!check || matches(entity, check)) {
+          yield entity;
+        }
+      }
+      if (rows.length < batchSize) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  async save(entity: T): Promise<Result<T>> {
+    const updated = touchEntity(entity);
+    const names = this.columns.map(column => column.name);
+    const placeholders = names.map(() => '?').join(', ');
+    const updates = names.filter(name => name !== 'id').map(name => `${name} = excluded.${name}`);
+    try {
+      this.database
+        .prepare(
+          `INSERT INTO ${this.table.name} (${names.join(', ')}) VALUES (${placeholders}) ` +
+            `ON CONFLICT(id) DO UPDATE SET ${updates.join(', ')}`
+        )
+        .run(...this.columns.map(column => column.value(updated)));
+      return createSuccess(updated);
+    } catch (error) {
+      return createError(`Failed to save: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async delete(id: string): Promise<Result<void>> {
+    const { changes } = this.database.prepare(`DELETE FROM ${this.table.name} WHERE id = ?`).run(id);
+    if (Number(changes) === 0) {
+      return createError(`Entity with id ${id} not found`);
+    }
+    return createSuccess(undefined);
+  }
+
+  /**
+   * Selects the entities matching a filter, in insertion order unless
+   * `orderBy` (SQL built from column names, never user input) is given.
+   */
+  private select(filter?: SqlFilter, orderBy?: string, limit?: number, offset?: number): T[] {
+    const parts = [`SELECT * FROM ${this.table.name}`];
+    const params = filter ? [...filter.params] : [];
+    if (filter) {
+      parts.push(`WHERE ${filter.where}`);
+    }
+    parts.push(`ORDER BY ${orderBy ? `${orderBy}, rowid` : 'rowid'}`);
+    if (limit !== undefined || offset !== undefined) {
+      parts.push('LIMIT ? OFFSET ?');
+      params.push(limit ?? -1, offset ?? 0);
+    }
+    return this.database.prepare(parts.join(' ')).all(...params).map(row => this.table.fromRow(row));
+  }
+
+  private countRows(filter?: SqlFilter): number {
+    const where = filter ? ` WHERE ${filter.where}` : '';
+    const row = this.database
+      .prepare(`SELECT COUNT(*) AS total FROM ${this.table.name}${where}`)
+      .get(...(filter?.params ?? []));
+    return Number(row?.['total'] ?? 0);
+  }
+
+  /** Translates a predicate to SQL matching in-memory evaluation; null when it cannot */
+  private compile(predicate: Predicate<T>): SqlFilter | null {
+    if (predicate.kind === 'and' || predicate.kind === 'or') {
+      if (predicate.predicates.length === 0) {
+        return { where: predicate.kind === 'and' ? '1' : '0', params: [] };
+      }
+      const parts: SqlFilter[] = [];
+      for (const inner of predicate.predicates) {
+        const part = this.compile(inner);
+        if (!part) return null;
+        parts.push(part);
+      }
+      return {
+        where: parts.map(part => `(${part.where})`).join(predicate.kind === 'and' ? ' AND ' : ' OR '),
+        params: parts.flatMap(part => part.params),
+      };
+    }
+    if (predicate.kind === 'not') {
+      const inner = this.compile(predicate.predicate);
+      return inner && { where: `NOT (${inner.where})`, params: inner.params };
+    }
+
+    const column = this.columnsByField.get(predicate.field);
+    if (!column) {
+      return null;
+    }
+    const name = column.name;
+    switch (predicate.kind) {
+      case 'compare': {
+        const { operator, value } = predicate;
+        if (operator === 'eq' || operator === 'ne') {
+          const is = operator === 'eq' ? 'IS' : 'IS NOT';
+          return value === null
+            ? { where: `${name} ${is} NULL`, params: [] }
+            : { where: `${name} ${is} ?`, params: [toSqlValue(value)] };
+        }
+        // Ordering comparisons never match a missing value
+        if (value === null) {
+          return { where: '0', params: [] };
+        }
+        // Strings are ordered with localeCompare in memory, which SQL's binary collation does not follow
+        if (typeof value === 'string') {
+          return null;
+        }
+        return {
+          where: `${name} IS NOT NULL AND ${name} ${SQL_OPERATORS[operator]} ?`,
+          params: [toSqlValue(value)],
+        };
+      }
+      case 'oneOf': {
+        const clauses = predicate.values.map(value => (value === null ? `${name} IS NULL` : `${name} IS ?`));
+        return {
+          where: clauses.length > 0 ? clauses.join(' OR ') : '0',
+          params: predicate.values.flatMap(value => (value === null ? [] : [toSqlValue(value)])),
+        };
+      }
+      case 'equalsIgnoreCase':
+        return column.type === 'TEXT' && isAscii(predicate.value)
+          ? { where: `${name} IS NOT NULL AND lower(${name}) = lower(?)`, params: [predicate.value] }
+          : null;
+      case 'contains':
+        return column.type === 'TEXT' && isAscii(predicate.value)
+          ? { where: `COALESCE(instr(lower(${name}), lower(?)) > 0, 0)`, params: [predicate.value] }
+          : null;
+      case 'includesAny':
+        // No array columns; evaluated in memory
+        return null;
+    }
+  }
+
+  /** ORDER BY clause placing missing values as sorting in memory does; null when it cannot */
+  private orderBy(sort: QuerySort<T>[]): string | null | undefined {
+    const terms: string[] = [];
+    for (const { field, order } of sort) {
+      const column = this.columnsByField.get(field);
+      if (!column || !sortsInSql(column)) return null;
+      terms.push(
+        order === 'desc'
+          ? `${column.name} IS NULL DESC, ${column.name} DESC`
+          : `${column.name} IS NULL, ${column.name} ASC`
+      );
+    }
+    return terms.length > 0 ? terms.join(', ') : undefined;
+  }
+
+  private createTable(): void {
+    const columns = this.columns.map(column =>
+      column.name === 'id'
+        ? 'id TEXT PRIMARY KEY'
+        : `${column.name} ${column.type}${column.nullable ? '' : ' NOT NULL'}`
+    );
+    this.database.exec(`CREATE TABLE IF NOT EXISTS ${this.table.name} (${columns.join(', ')})`);
+    for (const [name, indexColumns] of Object.entries(this.table.indexes)) {
+      this.database.exec(
+        `CREATE INDEX IF NOT EXISTS ${name} ON ${this.table.name} (${indexColumns.join(', ')})`
+      );
+    }
+  }
+}
+
+/** How backend users are stored */
+export const BACKEND_USER_TABLE: SqliteTableDefinition<BackendUser> = {
+  name: 'users',
+  columns: [
+    { name: 'email', type: 'TEXT', field: 'email', value: user => user.email },
+    { name: 'name', type: 'TEXT', field: 'name', value: user => user.name },
+    { name: 'role', type: 'TEXT', field: 'role', value: user => user.role },
+    { name: 'password_hash', type: 'TEXT', field: 'passwordHash', value: user => user.passwordHash },
+    {
+      name: 'last_login_at',
+      type: 'TEXT',
+      nullable: true,
+      field: 'lastLoginAt',
+      date: true,
+      value: user => user.lastLoginAt?.toISOString() ?? null,
+    },
+    { name: 'login_count', type: 'INTEGER', field: 'loginCount', value: user => user.loginCount },
+    { name: 'is_verified', type: 'INTEGER', field: 'isVerified', value: user => (user.isVerified ? 1 : 0) },
+  ],
+  indexes: {
+    users_email: ['email'],
+    users_role: ['role'],
+    users_is_verified: ['is_verified'],
+  },
+  fromRow: row => {
+    const user: BackendUser = {
+      ...entityFields(row),
+      email: String(row['email']),
+      name: String(row['name']),
+      role: row['role'] as BackendUser['role'],
+      passwordHash: String(row['password_hash']),
+      loginCount: Number(row['login_count']),
+      isVerified: row['is_verified'] === 1,
+    };
+    const lastLoginAt = optionalDate(row['last_login_at']);
+    return lastLoginAt ? { ...user, lastLoginAt } : user;
+  },
+};
+
+/** How backend items are stored */
+export const BACKEND_ITEM_TABLE: SqliteTableDefinition<BackendItem> = {
+  name: 'items',
+  columns: [
+    { name: 'title', type: 'TEXT', field: 'title', value: item => item.title },
+    { name: 'description', type: 'TEXT', field: 'description', value: item => item.description },
+    { name: 'owner_id', type: 'TEXT', field: 'ownerId', value: item => item.ownerId },
+    { name: 'status', type: 'TEXT', field: 'status', value: item => item.status },
+    { name: 'views', type: 'INTEGER', field: 'views', value: item => item.views },
+    {
+      name: 'last_viewed_at',
+      type: 'TEXT',
+      nullable: true,
+      field: 'lastViewedAt',
+      date: true,
+      value: item => item.lastViewedAt?.toISOString() ?? null,
+    },
+    {
+      name: 'internal_notes',
+      type: 'TEXT',
+      nullable: true,
+      field: 'internalNotes',
+      value: item => item.internalNotes ?? null,
+    },
+  ],
+  indexes: {
+    items_owner_id: ['owner_id'],
+    items_status: ['status'],
+    items_views: ['views'],
+  },
+  fromRow: row => {
+    const item: BackendItem = {
+      ...entityFields(row),
+      title: String(row['title']),
+      description: String(row['description']),
+      ownerId: String(row['owner_id']),
+      status: row['status'] as BackendItem['status'],
+      views: Number(row['views']),
+    };
+    const lastViewedAt = optionalDate(row['last_viewed_at']);
+    const internalNotes = row['internal_notes'];
+    return {
+      ...item,
+      ...(lastViewedAt && { lastViewedAt }),
+      ...(typeof internalNotes === 'string' && { internalNotes }),
+    };
+  },
+};
+
+/** Condition builders for user queries */
+const userFields = fieldsOf<BackendUser>();
+
+/** Condition builders for item queries */
+const itemFields = fieldsOf<BackendItem>();
+
+/** SQLite user repository */
+export class SqliteUserRepository extends SqliteRepository<BackendUser> implements UserStore {
+  constructor(database: DatabaseSync) {
+    super(database, BACKEND_USER_TABLE);
+  }
+
+  async findByEmail(email: string): Promise<Result<BackendUser>> {
+    const found = await this.find({ where: userFields.eq('email', email), limit: 1 });
+    const user = found.value?.[0];
+    if (!user) {
+      return createError(`User with email ${email} not found`);
+    }
+    return createSuccess(user);
+  }
+
+  async findByRole(role: BackendUser['role']): Promise<Result<BackendUser[]>> {
+    return this.find({ where: userFields.eq('role', role) });
+  }
+
+  async findVerified(): Promise<Result<BackendUser[]>> {
+    return this.find({ where: userFields.eq('isVerified', true) });
+  }
+}
+
+/** SQLite item repository */
+export class SqliteItemRepository extends SqliteRepository<BackendItem> implements ItemStore {
+  constructor(database: DatabaseSync) {
+    super(database, BACKEND_ITEM_TABLE);
+  }
+
+  async findByOwner(ownerId: string): Promise<Result<BackendItem[]>> {
+    return this.find({ where: itemFields.eq('ownerId', ownerId) });
+  }
+
+  async findByStatus(status: BackendItem['status']): Promise<Result<BackendItem[]>> {
+    return this.find({ where: itemFields.eq('status', status) });
+  }
+
+  async findMostViewed(limit: number): Promise<Result<BackendItem[]>> {
+    return this.find({ sort: [{ field: 'views', order: 'desc' }], limit });
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Backend tracing - continues W3C traces from the client and records spans.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Go to Definition" on parseTraceparent navigates to the shared package
+ * - "Find Implementations" of SpanExporter shows the in-memory and file exporters
+ * - Rename traceMethods and see createTracedServices update
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFile } from 'node:fs/promises';
+import type { SpanContext } from 'shared/tracing';
+import { createSpanContext, isSampled, parseTraceparent } from 'shared/tracing';
+import { getClock } from 'shared/clock';
+import type { Logger } from 'unused/interfaces';
+import { silentLogger } from './logger.js';
+import type { UserStore, ItemStore } from './repository.js';
+import { UserService, ItemService } from './services.js';
+
+/** Outcome of a span */
+export type SpanStatus = 'ok' | 'error';
+
+/** A finished span */
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  /** Absent for the root span of a trace */
+  parentSpanId?: string;
+  name: string;
+  /** ISO timestamps */
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  status: SpanStatus;
+  attributes: Record<string, string | number | boolean>;
+  /** Error message when status is `error` */
+  error?: string;
+}
+
+/** Receives finished spans */
+export interface SpanExporter {
+  export(spans: SpanRecord[]): void;
+  /** Waits for exported spans to be written */
+  flush?(): Promise<void>;
+}
+
+/** Keeps spans in memory so tests can inspect them */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanRecord[] = [];
+
+  export(spans: SpanRecord[]): void {
+    this.spans.push(...spans);
+  }
+
+  /** All spans in the order they finished */
+  getSpans(): SpanRecord[] {
+    return [...this.spans];
+  }
+
+  /** Spans belonging to one trace */
+  getTrace(traceId: string): SpanRecord[] {
+    return this.spans.filter(span => span.traceId === traceId);
+  }
+
+  /** Discards all spans */
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/** Appends spans to a file, one JSON object per line */
+export class JsonFileSpanExporter implements SpanExporter {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly logger: Logger = silentLogger
+  ) {}
+
+  export(spans: SpanRecord[]): void {
+    if (spans.length === 0) {
+      return;
+    }
+    const lines = spans.map(span => `${JSON.stringify(span)}\n`).join('');
+    // Writes are chained so lines from concurrent spans never interleave
+    this.pending = this.pending
+      .then(() => appendFile(this.filePath, lines, 'utf8'))
+      .catch((error: unknown) => {
+        this.logger.error('Failed to export spans', { filePath: this.filePath, error });
+      });
+  }
+
+  flush(): Promise<void> {
+    return this.pending;
+  }
+}
+
+/** Options for starting a span */
+export interface SpanOptions {
+  /** Parent span; defaults to the active span */
+  parent?: SpanContext;
+  attributes?: Record<string, string | number | boolean>;
+}
+
+/** Whether a value is a failed shared `Result` */
+function isFailedResult(value: unknown): value is { ok: false; error?: unknown } {
+  return typeof value === 'object' && value !== null && 'ok' in value && value.ok === false;
+}
+
+/** Message describing an error or a failed Result */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Whether a value is an async iterable that is not also a promise */
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Promise) &&
+    Symbol.asyncIterator in value
+  );
+}
+
+/** A started span */
+interface Span {
+  context: SpanContext;
+  /** Exports the span, if sampled, with its outcome */
+  end(status: SpanStatus, error?: unknown): void;
+}
+
+/**
+ * Records spans around synchronous and async work.
+ * The active span is tracked with AsyncLocalStorage, so nested calls become
+ * children without passing contexts around. Unsampled traces are propagated
+ * but not exported.
+ */
+export class Tracer {
+  private readonly storage = new AsyncLocalStorage<SpanContext>();
+
+  constructor(
+    private readonly exporter: SpanExporter,
+    private readonly serviceName: string = 'backend'
+  ) {}
+
+  /** Context of the span running the current code, if any */
+  activeContext(): SpanContext | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Runs work in a new span, a child of the given or active span.
+   * The span ends when the work returns, when a returned promise settles or,
+   * for a returned async iterable (e.g. from `stream()`), when its iteration
+   * finishes, throws or is stopped early.
+   */
+  startActiveSpan<R>(name: string, work: (context: SpanContext) => R, options: SpanOptions = {}): R {
+    const span = this.startSpan(name, options);
+    const settle = (result: unknown): void => {
+      if (isFailedResult(result)) {
+        span.end('error', result.error);
+      } else {
+        span.end('ok');
+      }
+    };
+
+    let result: R;
+    try {
+      result = this.storage.run(span.context, () => work(span.context));
+    } catch (error) {
+      span.end('error', error);
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        resolved => {
+          settle(resolved);
+          return resolved;
+        },
+        (error: unknown) => {
+          span.end('error', error);
+          throw error;
+        }
+      ) as R;
+    }
+    if (isAsyncIterable(result)) {
+      return this.iterateInSpan(span, result) as R;
+    }
+    settle(result);
+    return result;
+  }
+
+  /** Iterates an async iterable with its span active for each step, then ends the span */
+  private async *iterateInSpan<V>(span: Span, iterable: AsyncIterable<V>): AsyncGenerator<V> {
+    const iterator = this.storage.run(span.context, () => iterable[Symbol.asyncIterator]());
+    let finished = false;
+    try {
+      for (;;) {
+        const next = await this.storage.run(span.context, () => iterator.next());
+        if (next.done) {
+          finished = true;
+          span.end('ok');
+          return;
+        }
+        yield next.value;
+      }
+    } catch (error) {
+      finished = true;
+      span.end('error', error);
+      throw error;
+    } finally {
+      // Stopped early by the consumer
+      if (!finished) {
+        await this.storage.run(span.context, async () => iterator.return?.());
+        span.end('ok');
+      }
+    }
+  }
+
+  /** Starts a span, a child of the given or active span */
+  private startSpan(name: string, options: SpanOptions): Span {
+    const parent = options.parent ?? this.activeContext();
+    const context = createSpanContext(parent);
+    const startTime = getClock().now();
+
+    const end = (status: SpanStatus, error?: unknown): void => {
+      if (!isSampled(context)) {
+        return;
+      }
+      const endTime = getClock().now();
+      const record: SpanRecord = {
+        traceId: context.traceId,
+        spanId: context.spanId,
+        name,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        durationMs: endTime.getTime() - startTime.getTime(),
+        status,
+        attributes: { 'service.name': this.serviceName, ...options.attributes },
+      };
+      if (parent) {
+        record.parentSpanId = parent.spanId;
+      }
+      if (error !== undefined) {
+        record.error = errorMessage(error);
+      }
+      this.exporter.export([record]);
+    };
+    return { context, end };
+  }
+
+  /**
+   * Runs work in a span continuing the trace from a `traceparent` header.
+   * A missing or invalid header starts a new trace.
+   */
+  continueTrace<R>(
+    traceparent: string | null | undefined,
+    name: string,
+    work: (context: SpanContext) => R,
+    attributes?: Record<string, string | number | boolean>
+  ): R {
+    const parent = parseTraceparent(traceparent) ?? undefined;
+    return this.startActiveSpan(name, work, { parent, attributes });
+  }
+
+  /** Waits for the exporter to write pending spans */
+  async forceFlush(): Promise<void> {
+    await this.exporter.flush?.();
+  }
+}
+
+/**
+ * Wraps every method of an object so each call runs in a span named
+ * `<prefix>.<method>`. Failed Results and thrown errors mark the span as an error.
+ * Returned async iterables are traced while iterated (see startActiveSpan),
+ * and a method returning the object itself returns the wrapper, so chained
+ * calls stay traced.
+ */
+export function traceMethods<T extends object>(target: T, prefix: string, tracer: Tracer): T {
+  const traced: T = new Proxy(target, {
+    get(object, property, receiver) {
+      const value: unknown = Reflect.get(object, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string' || property === 'constructor') {
+        return value;
+      }
+      return (...args: unknown[]): unknown =>
+        tracer.startActiveSpan(`${prefix}.${property}`, () => {
+          const result: unknown = value.apply(object, args);
+          return result === object ? traced : result;
+        });
+    },
+  });
+  return traced;
+}
+
+/** Traced backend services */
+export interface TracedServices {
+  users: UserService;
+  items: ItemService;
+}
+
+/** Stores backing traced services */
+export interface TracedServiceStores {
+  users: UserStore;
+  items: ItemStore;
+}
+
+/**
+ * Creates services over the given stores, recording service and store
+ * calls as spans. The stores themselves are not changed.
+ */
+export function createTracedServices(
+  tracer: Tracer,
+  stores: TracedServiceStores,
+  logger: Logger = silentLogger
+): TracedServices {
+  const userStore = traceMethods(stores.users, 'UserRepository', tracer);
+  const itemStore = traceMethods(stores.items, 'ItemRepository', tracer);
+
+  return {
+    users: traceMethods(new UserService(userStore, logger), 'UserService', tracer),
+    items: traceMethods(new ItemService(itemStore, logger), 'ItemService', tracer),
+  };
+}
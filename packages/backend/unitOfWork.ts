@@ -0,0 +1,306 @@
+/**
+ * Backend unit of work - buffers saves and deletes across backend
+ * repositories and applies them together on commit, undoing the applied
+ * ones if any fails.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find Implementations" of Repository shows the buffered repository view
+ * - "Find References" on runInUnitOfWork shows UserService.deleteUserWithItems
+ * - Rename afterCommit and see the service update
+ */
+
+import type { SharedEntity, Result, PaginationParams, PaginatedResponse } from 'shared/types';
+import { createSuccess, createError, paginate } from 'shared/utils';
+import type { Predicate, Query, StreamOptions } from 'shared/query';
+import { applyQuery, matches } from 'shared/query';
+import type { Repository } from './repository.js';
+
+/** Lifecycle of a unit of work */
+export type UnitOfWorkState = 'active' | 'committed' | 'rolledBack';
+
+/** Writes one pending change; resolves to the error when it fails */
+type PendingWrite = (reverts: Revert[]) => Promise<string | undefined>;
+
+/** Reverts a change applied during commit */
+type Revert = () => Promise<unknown>;
+
+/**
+ * Buffers writes to the repositories it tracks until commit.
+ * Reads through a tracked repository see the pending writes. On commit the
+ * final state of every changed entity is written in the order the entities
+ * were first changed; if a write fails, the applied ones are reverted in
+ * reverse order and the failure is returned, even if a revert fails too.
+ * Callbacks registered with `afterCommit` run only once every write succeeded.
+ */
+export class UnitOfWork {
+  /** Views by the repository they track */
+  private readonly views = new Map<object, { clear(): void }>();
+  private readonly writes: PendingWrite[] = [];
+  private callbacks: (() => void)[] = [];
+  private currentState: UnitOfWorkState = 'active';
+
+  get state(): UnitOfWorkState {
+    return this.currentState;
+  }
+
+  /** A view of the repository whose writes are buffered in this unit of work */
+  track<T extends SharedEntity>(repository: Repository<T>): Repository<T> {
+    const existing = this.views.get(repository);
+    if (existing) {
+      return existing as BufferedRepository<T>;
+    }
+    const view = new BufferedRepository(repository, write => this.enqueue(write));
+    this.views.set(repository, view);
+    return view;
+  }
+
+  /** Runs the callback after a successful commit; it is dropped on rollback */
+  afterCommit(callback: () => void): void {
+    if (this.currentState === 'committed') {
+      callback();
+      return;
+    }
+    this.callbacks.push(callback);
+  }
+
+  /** Writes every pending change, reverting the applied ones if one fails */
+  async commit(): Promise<Result<void>> {
+    if (this.currentState !== 'active') {
+      return createError(this.closedError());
+    }
+    const reverts: Revert[] = [];
+    for (const write of this.writes) {
+      const error = await write(reverts);
+      if (error !== undefined) {
+        await revertAll(reverts);
+        this.close('rolledBack');
+        return createError(error);
+      }
+    }
+    const callbacks = this.callbacks;
+    this.close('committed');
+    callbacks.forEach(callback => callback());
+    return createSuccess(undefined);
+  }
+
+  /** Discards the pending changes and callbacks */
+  rollback(): void {
+    if (this.currentState === 'active') {
+      this.close('rolledBack');
+    }
+  }
+
+  /** Queues the write of a newly changed entity; fails once the unit of work is closed */
+  private enqueue(write: PendingWrite | undefined): Result<void> {
+    if (this.currentState !== 'active') {
+      return createError(this.closedError());
+    }
+    if (write) {
+      this.writes.push(write);
+    }
+    return createSuccess(undefined);
+  }
+
+  private closedError(): string {
+    return `Unit of work is already ${this.currentState}`;
+  }
+
+  private close(state: UnitOfWorkState): void {
+    this.currentState = state;
+    this.writes.length = 0;
+    this.callbacks = [];
+    this.views.forEach(view => view.clear());
+  }
+}
+
+/** Reverts applied changes newest first; a revert that fails does not stop the others */
+async function revertAll(reverts: Revert[]): Promise<void> {
+  for (const revert of [...reverts].reverse()) {
+    try {
+      await revert();
+    } catch {
+      // The write's own failure is what commit reports
+    }
+  }
+}
+
+/**
+ * Runs work in a new unit of work, committing when it succeeds and rolling
+ * back when it fails or throws.
+ */
+export async function runInUnitOfWork<T>(
+  work: (unitOfWork: UnitOfWork) => Promise<Result<T>>
+): Promise<Result<T>> {
+  const unitOfWork = new UnitOfWork();
+  let result: Result<T>;
+  try {
+    result = await work(unitOfWork);
+  } catch (error) {
+    unitOfWork.rollback();
+    return createError(error instanceof Error ? error.message : String(error));
+  }
+  if (!result.ok) {
+    unitOfWork.rollback();
+    return result;
+  }
+  const committed = await unitOfWork.commit();
+  return committed.ok ? result : createError(committed.error ?? 'Commit failed');
+}
+
+/**
+ * Repository view holding the pending writes of a unit of work over an
+ * inner repository. Saves are only checked by the inner repository (and its
+ * hooks) on commit, so a rejected save fails the commit rather than the call.
+ */
+class BufferedRepository<T extends SharedEntity> implements Repository<T> {
+  /** Pending state by id; null marks a pending delete */
+  private readonly pending = new Map<string, T | null>();
+
+  constructor(
+    private readonly inner: Repository<T>,
+    /** Queues the write of an entity changed for the first time (none for later changes) */
+    private readonly enqueue: (write: PendingWrite | undefined) => Result<void>
+  ) {}
+
+  async findById(id: string): Promise<Result<T>> {
+    const pending = this.pending.get(id);
+    if (pending === undefined) {
+      return this.inner.findById(id);
+    }
+    return pending ? createSuccess(pending) : createError(`Entity with id ${id} not found`);
+  }
+
+  async findAll(): Promise<Result<T[]>> {
+    return this.find();
+  }
+
+  async findPaginated(params: PaginationParams): Promise<Result<PaginatedResponse<T>>> {
+    if (this.pending.size === 0) {
+      return this.inner.findPaginated(params);
+    }
+    const all = await this.find();
+    if (!all.ok || !all.value) {
+      return createError(all.error ?? 'Read failed');
+    }
+    return createSuccess(paginate(all.value, params));
+  }
+
+  async find(query: Query<T> = {}): Promise<Result<T[]>> {
+    if (this.pending.size === 0) {
+      return this.inner.find(query);
+    }
+    const stored = await this.inner.find({ where: query.where });
+    if (!stored.ok || !stored.value) {
+      return stored;
+    }
+    return createSuccess(applyQuery(this.overlay(stored.value, query.where), { ...query, where: undefined }));
+  }
+
+  async count(where?: Predicate<T>): Promise<Result<number>> {
+    if (this.pending.size === 0) {
+      return this.inner.count(where);
+    }
+    const found = await this.find({ where });
+    if (!found.ok || !found.value) {
+      return createError(found.error ?? 'Read failed');
+    }
+    return createSuccess(found.value.length);
+  }
+
+  async *stream(options: StreamOptions<T> = {}): AsyncGenerator<T> {
+    const { where } = options;
+    const seen = new Set<string>();
+    for await (const entity of this.inner.stream(options)) {
+      seen.add(entity.id);
+      const current = this.current(entity);
+      if (current && (!where || matches(current, where))) {
+        yield current;
+      }
+    }
+    yield* this.added(seen, where);
+  }
+
+  async save(entity: T): Promise<Result<T>> {
+    const queued = this.enqueue(this.writeFor(entity.id));
+    if (!queued.ok) {
+      return createError(queued.error ?? 'Save rejected');
+    }
+    this.pending.set(entity.id, entity);
+    return createSuccess(entity);
+  }
+
+  async delete(id: string): Promise<Result<void>> {
+    const found = await this.findById(id);
+    if (!found.ok) {
+      return createError(found.error ?? `Entity with id ${id} not found`);
+    }
+    const queued = this.enqueue(this.writeFor(id));
+    if (!queued.ok) {
+      return queued;
+    }
+    this.pending.set(id, null);
+    return createSuccess(undefined);
+  }
+
+  /** Drops the pending writes */
+  clear(): void {
+    this.pending.clear();
+  }
+
+  /** The commit-time write of an entity changed for the first time; none if it has changed before */
+  private writeFor(id: string): PendingWrite | undefined {
+    if (this.pending.has(id)) {
+      return undefined;
+    }
+    return async reverts => {
+      const pending = this.pending.get(id);
+      try {
+        const stored = await this.inner.findById(id);
+        const before = stored.ok ? stored.value : undefined;
+        if (pending === undefined || (pending === null && !before)) {
+          // Created and deleted again within the unit of work
+          return undefined;
+        }
+        const result = pending ? await this.inner.save(pending) : await this.inner.delete(id);
+        if (!result.ok) {
+          return result.error ?? 'Write failed';
+        }
+        reverts.push(() => (before ? this.inner.save(before) : this.inner.delete(id)));
+        return undefined;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    };
+  }
+
+  /** The pending version of a stored entity; null when it is to be deleted */
+  private current(entity: T): T | null {
+    const pending = this.pending.get(entity.id);
+    return pending !== undefined ? pending : entity;
+  }
+
+  /** Stored matches with pending writes applied, followed by pending entities not among them */
+  private overlay(stored: T[], where?: Predicate<T>): T[] {
+    const seen = new Set<string>();
+    const merged: T[] = [];
+    for (const entity of stored) {
+      seen.add(entity.id);
+      const current = this.current(entity);
+      if (current && (!where || matches(current, where))) {
+        merged.push(current);
+      }
+    }
+    return [...merged, ...this.added(seen, where)];
+  }
+
+  /** Pending saves of entities not in `seen` that match */
+  private added(seen: Set<string>, where?: Predicate<T>): T[] {
+    const added: T[] = [];
+    for (const [id, entity] of this.pending) {
+      if (entity && !seen.has(id) && (!where || matches(entity, where))) {
+        added.push(entity);
+      }
+    }
+    return added;
+  }
+}
@@ -15,6 +15,10 @@ import type {
   PaginationParams 
 } from 'shared/types';
 import { createSuccess, createError, formatApiDate } from 'shared/utils';
+import type { SpanContext } from 'shared/tracing';
+import { TRACEPARENT_HEADER, createSpanContext, formatTraceparent } from 'shared/tracing';
+import type { SupportedLocale } from 'shared/i18n';
+import { formatLocalizedDate } from 'shared/i18n';
 import type { ApiClientConfig } from './types.js';
 
 /** API client for communicating with backend */
@@ -22,12 +26,15 @@ export class ApiClient {
   private baseUrl: string;
   private timeout: number;
   private headers: Record<string, string>;
+  private traceParent: SpanContext | null = null;
+  private lastTraceContext: SpanContext | null = null;
 
   constructor(config: ApiClientConfig) {
     this.baseUrl = config.baseUrl;
     this.timeout = config.timeout;
     this.headers = {
       'Content-Type': 'application/json',
+      ...(config.locale && { 'Accept-Language': config.locale }),
       ...config.headers,
     };
   }
@@ -42,6 +49,16 @@ export class ApiClient {
     delete this.headers['Authorization'];
   }
 
+  /** Makes later requests part of the given trace (null starts a new trace per request) */
+  setTraceParent(parent: SpanContext | null): void {
+    this.traceParent = parent;
+  }
+
+  /** Trace context sent with the most recent request */
+  getLastTraceContext(): SpanContext | null {
+    return this.lastTraceContext;
+  }
+
   /** Makes a fetch request with configuration */
   private async request<T>(
     method: string,
@@ -52,9 +69,16 @@ export class ApiClient {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
+      // Each request is a client span; the backend continues the trace from it
+      const traceContext = createSpanContext(this.traceParent ?? undefined);
+      this.lastTraceContext = traceContext;
+
       const response = await fetch(`${this.baseUrl}${path}`, {
         method,
-        headers: this.headers,
+        headers: {
+          ...this.headers,
+          [TRACEPARENT_HEADER]: formatTraceparent(traceContext),
+        },
         body: body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
@@ -173,7 +197,13 @@ export function createApiClient(baseUrl: string): ApiClient {
   });
 }
 
-/** Formats a date for display in the UI */
-export function formatDisplayDate(date: Date): string {
+/**
+ * Formats a date for display in the UI.
+ * Without a locale the ISO date is shown; with one, the locale's format in the given time zone.
+ */
+export function formatDisplayDate(date: Date, locale?: SupportedLocale, timeZone?: string): string {
+  if (locale) {
+    return formatLocalizedDate(date, locale, timeZone ? { timeZone } : {});
+  }
   return formatApiDate(date).split('T')[0] ?? '';
 }
@@ -8,7 +8,10 @@
  */
 
 import type { ItemDto } from 'shared/types';
+import type { ValidationResult } from 'shared/validation';
 import { validateEmail, validateName } from 'shared/validation';
+import type { SupportedLocale } from 'shared/i18n';
+import { localizeValidationResult } from 'shared/i18n';
 import type { 
   UserState, 
   ItemsState, 
@@ -119,16 +122,24 @@ export function itemsReducer(state: ItemsState, action: ItemAction): ItemsState
   }
 }
 
-/** Validates user form */
-export function validateUserForm(form: UserFormState): Record<string, string> {
+/** Translates a validation result's messages, or keeps them when no locale is given */
+function inLocale(result: ValidationResult, locale?: SupportedLocale): ValidationResult {
+  return locale ? localizeValidationResult(result, locale) : result;
+}
+
+/** Validates user form; messages are translated when a locale is given */
+export function validateUserForm(
+  form: UserFormState,
+  locale?: SupportedLocale
+): Record<string, string> {
   const errors: Record<string, string> = {};
 
-  const emailResult = validateEmail(form.email);
+  const emailResult = inLocale(validateEmail(form.email), locale);
   if (!emailResult.ok && emailResult.errors) {
     errors['email'] = emailResult.errors[0]?.message ?? 'Invalid email';
   }
 
-  const nameResult = validateName(form.name);
+  const nameResult = inLocale(validateName(form.name), locale);
   if (!nameResult.ok && nameResult.errors) {
     errors['name'] = nameResult.errors[0]?.message ?? 'Invalid name';
   }
@@ -144,11 +155,14 @@ export function validateUserForm(form: UserFormState): Record<string, string> {
   return errors;
 }
 
-/** Validates item form */
-export function validateItemForm(form: ItemFormState): Record<string, string> {
+/** Validates item form; messages are translated when a locale is given */
+export function validateItemForm(
+  form: ItemFormState,
+  locale?: SupportedLocale
+): Record<string, string> {
   const errors: Record<string, string> = {};
 
-  const titleResult = validateName(form.title, 'title');
+  const titleResult = inLocale(validateName(form.title, 'title'), locale);
   if (!titleResult.ok && titleResult.errors) {
     errors['title'] = titleResult.errors[0]?.message ?? 'Invalid title';
   }
@@ -13,6 +13,7 @@ import type {
   SharedEvent, 
   PaginationParams 
 } from 'shared/types';
+import type { SupportedLocale } from 'shared/i18n';
 
 /** UI state for a user */
 export interface UserState {
@@ -82,4 +83,6 @@ export interface ApiClientConfig {
   baseUrl: string;
   timeout: number;
   headers?: Record<string, string>;
+  /** Sent as Accept-Language so the server localizes its messages */
+  locale?: SupportedLocale;
 }
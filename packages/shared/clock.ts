@@ -0,0 +1,58 @@
+/**
+ * Clock - the source of the current time, injectable so tests can freeze it.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find References" on getClock shows createEntityFields and touchEntity
+ * - "Go to Implementation" on Clock shows systemClock and ManualClock
+ * - Rename setClock and see backend and frontend callers update
+ */
+
+/** Source of the current time */
+export interface Clock {
+  now(): Date;
+}
+
+/** Clock reading the system time */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Clock that only moves when told to.
+ * Starts at the given time, or the Unix epoch.
+ */
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date | number = 0) {
+    this.current = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  /** Sets the current time */
+  set(time: Date | number): void {
+    this.current = typeof time === 'number' ? time : time.getTime();
+  }
+
+  /** Moves the clock forward by the given number of milliseconds */
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
+
+let activeClock: Clock = systemClock;
+
+/** The clock used when none is passed explicitly */
+export function getClock(): Clock {
+  return activeClock;
+}
+
+/** Replaces the default clock; returns the previous one so it can be restored */
+export function setClock(clock: Clock): Clock {
+  const previous = activeClock;
+  activeClock = clock;
+  return previous;
+}
@@ -0,0 +1,196 @@
+/**
+ * Shared test data - a seeded fake data generator, a generic Factory and
+ * factories for the shared DTOs.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find References" on Factory shows the backend and frontend factories
+ * - "Go to Definition" on UserDto navigates to types.ts
+ * - Rename FakeData and see every package update
+ */
+
+import type { ItemDto, UserDto } from './types.js';
+import type { RandomSource } from './ids.js';
+import { seededRandom } from './ids.js';
+import { createEntityFields, generateUniqueId } from './utils.js';
+
+const FIRST_NAMES = [
+  'Ada', 'Alan', 'Amara', 'Bruno', 'Chen', 'Clara', 'Diego', 'Elena', 'Farah', 'Grace',
+  'Hiro', 'Ines', 'Jonas', 'Kemal', 'Leila', 'Marta', 'Noah', 'Olga', 'Priya', 'Quinn',
+  'Rafael', 'Sofia', 'Tomas', 'Uma', 'Viktor', 'Wen', 'Yusuf', 'Zara',
+] as const;
+
+const LAST_NAMES = [
+  'Almeida', 'Baker', 'Costa', 'Dubois', 'Eriksson', 'Fischer', 'Garcia', 'Haddad', 'Ivanova',
+  'Jensen', 'Kowalski', 'Lopez', 'Muller', 'Nakamura', 'Okafor', 'Patel', 'Rossi', 'Schmidt',
+  'Tanaka', 'Novak', 'Weber', 'Yilmaz', 'Zhang',
+] as const;
+
+const EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net', 'test.example'] as const;
+
+const WORDS = [
+  'adaptive', 'classic', 'compact', 'durable', 'everyday', 'lightweight', 'modern', 'portable',
+  'premium', 'recycled', 'smart', 'vintage', 'wireless', 'ergonomic', 'handmade', 'organic',
+  'lamp', 'jacket', 'novel', 'speaker', 'kettle', 'backpack', 'notebook', 'chair', 'headphones',
+  'blanket', 'charger', 'mug', 'guide', 'sneakers', 'monitor', 'cookbook',
+] as const;
+
+/** Generates fake data from a seeded random source */
+export class FakeData {
+  private readonly random: RandomSource;
+  private sequence = 0;
+
+  constructor(readonly seed: number = 1) {
+    this.random = seededRandom(seed);
+  }
+
+  /** Float in [0, 1) */
+  float(): number {
+    const uint32 = this.random(4).reduce((value, byte) => value * 0x100 + byte, 0);
+    return uint32 / 0x100000000;
+  }
+
+  /** Integer in [min, max] */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.float() * (max - min + 1));
+  }
+
+  /** True with the given probability */
+  bool(probability: number = 0.5): boolean {
+    return this.float() < probability;
+  }
+
+  /** One element of a non-empty list */
+  pick<T>(values: readonly T[]): T {
+    return values[this.int(0, values.length - 1)] as T;
+  }
+
+  /** Up to `count` distinct elements of a list */
+  sample<T>(values: readonly T[], count: number): T[] {
+    const remaining = [...values];
+    const picked: T[] = [];
+    while (picked.length < count && remaining.length > 0) {
+      picked.push(...remaining.splice(this.int(0, remaining.length - 1), 1));
+    }
+    return picked;
+  }
+
+  /** Next value of a counter shared by everything generated from this instance */
+  nextSequence(): number {
+    return ++this.sequence;
+  }
+
+  firstName(): string {
+    return this.pick(FIRST_NAMES);
+  }
+
+  lastName(): string {
+    return this.pick(LAST_NAMES);
+  }
+
+  fullName(): string {
+    return `${this.firstName()} ${this.lastName()}`;
+  }
+
+  /** Username derived from a name; the sequence number keeps it unique */
+  username(name: string = this.fullName()): string {
+    return `${name.toLowerCase().replace(/[^a-z]+/g, '.')}${this.nextSequence()}`;
+  }
+
+  /** Email address for a local part (a fresh unique username by default) */
+  email(localPart: string = this.username()): string {
+    return `${localPart}@${this.pick(EMAIL_DOMAINS)}`;
+  }
+
+  /** Space-separated words */
+  words(count: number): string {
+    return Array.from({ length: count }, () => this.pick(WORDS)).join(' ');
+  }
+
+  /** A capitalized sentence ending with a full stop */
+  sentence(wordCount: number = this.int(6, 12)): string {
+    const text = this.words(wordCount);
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+  }
+
+  /** Title-cased product name */
+  productName(): string {
+    return this.words(this.int(2, 3)).replace(/\b\w/g, letter => letter.toUpperCase());
+  }
+
+  /** Stock keeping unit, unique per instance */
+  sku(): string {
+    return `SKU-${String(this.nextSequence()).padStart(6, '0')}`;
+  }
+
+  /** Amount with two decimals in [min, max] */
+  amount(min: number, max: number): number {
+    return Math.round((min + this.float() * (max - min)) * 100) / 100;
+  }
+
+  /** Date between two dates */
+  date(from: Date, to: Date): Date {
+    return new Date(from.getTime() + Math.floor(this.float() * (to.getTime() - from.getTime())));
+  }
+}
+
+/** Overrides for one built entity, or a function of its position in a list */
+export type Overrides<T> = Partial<T> | ((index: number) => Partial<T>);
+
+/** Builds objects from generated defaults and caller overrides */
+export class Factory<T> {
+  /**
+   * @param defaults - Builds a fresh default object; called once per build
+   * @param fixed - Overrides applied to every build (see with)
+   */
+  constructor(
+    private readonly defaults: (fake: FakeData) => T,
+    readonly fake: FakeData = new FakeData(),
+    private readonly fixed: Partial<T> = {}
+  ) {}
+
+  /** Builds one object */
+  build(overrides: Partial<T> = {}): T {
+    return { ...this.defaults(this.fake), ...this.fixed, ...overrides };
+  }
+
+  /** Builds `count` objects */
+  buildList(count: number, overrides: Overrides<T> = {}): T[] {
+    return Array.from({ length: count }, (_, index) =>
+      this.build(typeof overrides === 'function' ? overrides(index) : overrides)
+    );
+  }
+
+  /** A factory that applies the given overrides to everything it builds */
+  with(overrides: Partial<T>): Factory<T> {
+    return new Factory(this.defaults, this.fake, { ...this.fixed, ...overrides });
+  }
+}
+
+/** Factory for user DTOs: regular users with unique emails by default */
+export function userDtoFactory(fake: FakeData = new FakeData()): Factory<UserDto> {
+  return new Factory(data => {
+    const name = data.fullName();
+    return { ...createEntityFields(), email: data.email(data.username(name)), name, role: 'user' };
+  }, fake);
+}
+
+/** Factory for item DTOs; the owner is a generated id unless set (see ownedBy) */
+export function itemDtoFactory(fake: FakeData = new FakeData()): Factory<ItemDto> {
+  return new Factory(data => ({
+    ...createEntityFields(),
+    title: data.productName(),
+    description: data.sentence(),
+    ownerId: generateUniqueId(),
+    status: data.pick(['draft', 'published', 'archived'] as const),
+  }), fake);
+}
+
+/** Builds `count` items owned by an entity, via a factory that applies the owner */
+export function ownedBy<T extends { ownerId: string }>(
+  factory: Factory<T>,
+  owner: { id: string },
+  count: number,
+  overrides: Overrides<T> = {}
+): T[] {
+  return factory.with({ ownerId: owner.id } as Partial<T>).buildList(count, overrides);
+}
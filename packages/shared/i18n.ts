@@ -0,0 +1,160 @@
+/**
+ * Shared internationalization - locale negotiation, validation message
+ * catalogs and Intl-based date and currency formatting.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find References" on SupportedLocale shows the frontend client and form state
+ * - "Find References" on localizeValidationResult shows the frontend form validation
+ * - Rename MessageCatalog and see every catalog update
+ */
+
+import type { ValidationError, ValidationResult } from './validation.js';
+
+/** Supported locales */
+export const SUPPORTED_LOCALES = ['en-US', 'en-GB', 'es-ES', 'fr-FR', 'de-DE'] as const;
+
+/** A supported locale */
+export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number];
+
+/** Locale used when negotiation finds no supported match */
+export const DEFAULT_LOCALE: SupportedLocale = 'en-US';
+
+/** Values substituted into `{name}` placeholders */
+export type MessageParams = Record<string, string | number>;
+
+/** Messages keyed by validation error code */
+export type MessageCatalog = Partial<Record<string, string>>;
+
+/** Validation messages per locale; missing entries fall back (see translateValidationError) */
+export const VALIDATION_MESSAGES: Record<SupportedLocale, MessageCatalog> = {
+  'en-US': {
+    REQUIRED: '{field} is required',
+    INVALID_FORMAT: '{field} has an invalid format',
+    MIN_LENGTH: '{field} must be at least {min} characters',
+    MAX_LENGTH: '{field} must not exceed {max} characters',
+  },
+  // British English reuses the en-US messages through the language fallback
+  'en-GB': {},
+  'es-ES': {
+    REQUIRED: '{field} es obligatorio',
+    INVALID_FORMAT: '{field} tiene un formato no válido',
+    MIN_LENGTH: '{field} debe tener al menos {min} caracteres',
+    MAX_LENGTH: '{field} no puede superar los {max} caracteres',
+  },
+  'fr-FR': {
+    REQUIRED: '{field} est obligatoire',
+    INVALID_FORMAT: "{field} n'a pas un format valide",
+    MIN_LENGTH: '{field} doit contenir au moins {min} caractères',
+    MAX_LENGTH: '{field} ne doit pas dépasser {max} caractères',
+  },
+  'de-DE': {
+    REQUIRED: '{field} ist erforderlich',
+    INVALID_FORMAT: '{field} hat ein ungültiges Format',
+    MIN_LENGTH: '{field} muss mindestens {min} Zeichen lang sein',
+    MAX_LENGTH: '{field} darf höchstens {max} Zeichen lang sein',
+  },
+};
+
+/** Checks whether a value is a supported locale */
+export function isSupportedLocale(value: unknown): value is SupportedLocale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the best supported locale for an `Accept-Language` header.
+ * Exact matches win over language-only matches (`fr` or `fr-CA` → `fr-FR`);
+ * entries are tried in order of their q-values.
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): SupportedLocale {
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag = '', ...parameters] = part.trim().split(';');
+      const q = parameters.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(range => range.tag.length > 0 && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of ranges) {
+    const exact = SUPPORTED_LOCALES.find(locale => locale.toLowerCase() === tag);
+    if (exact) {
+      return exact;
+    }
+    const language = tag.split('-')[0];
+    const sameLanguage = SUPPORTED_LOCALES.find(locale => locale.toLowerCase().split('-')[0] === language);
+    if (sameLanguage) {
+      return sameLanguage;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** Replaces `{name}` placeholders; unknown placeholders are left as they are */
+export function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/** Locales to look a message up in: the locale, its language's first locale, then the default */
+function fallbackChain(locale: SupportedLocale): SupportedLocale[] {
+  const language = locale.split('-')[0];
+  const sameLanguage = SUPPORTED_LOCALES.filter(candidate => candidate.split('-')[0] === language);
+  return Array.from(new Set([locale, ...sameLanguage, DEFAULT_LOCALE]));
+}
+
+/** Looks up a message for a code, or undefined when no catalog in the fallback chain has one */
+export function findMessage(code: string, locale: SupportedLocale): string | undefined {
+  for (const candidate of fallbackChain(locale)) {
+    const message = VALIDATION_MESSAGES[candidate][code];
+    if (message !== undefined) {
+      return message;
+    }
+  }
+  return undefined;
+}
+
+/** Translates a validation error, keeping its original message when no catalog has the code */
+export function translateValidationError(error: ValidationError, locale: SupportedLocale): ValidationError {
+  const template = findMessage(error.code, locale);
+  if (template === undefined) {
+    return error;
+  }
+  return { ...error, message: interpolate(template, { field: error.field, ...error.params }) };
+}
+
+/** Translates every error of a validation result */
+export function localizeValidationResult(result: ValidationResult, locale: SupportedLocale): ValidationResult {
+  if (!result.errors) {
+    return result;
+  }
+  return { ...result, errors: result.errors.map(error => translateValidationError(error, locale)) };
+}
+
+/** Options for formatLocalizedDate */
+export interface DateFormatOptions {
+  /** IANA time zone, e.g. `Europe/Berlin` (defaults to UTC so output does not depend on the host) */
+  timeZone?: string;
+  dateStyle?: 'full' | 'long' | 'medium' | 'short';
+  /** Omitted means the time is not shown */
+  timeStyle?: 'full' | 'long' | 'medium' | 'short';
+}
+
+/** Formats a date for a locale and time zone */
+export function formatLocalizedDate(
+  date: Date,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+  options: DateFormatOptions = {}
+): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: options.timeZone ?? 'UTC',
+    dateStyle: options.dateStyle ?? 'medium',
+    ...(options.timeStyle && { timeStyle: options.timeStyle }),
+  }).format(date);
+}
+
+/** Formats an amount in an ISO 4217 currency for a locale */
+export function formatCurrency(amount: number, currency: string, locale: SupportedLocale = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
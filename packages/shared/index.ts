@@ -6,3 +6,9 @@
 export * from './types.js';
 export * from './utils.js';
 export * from './validation.js';
+export * from './tracing.js';
+export * from './i18n.js';
+export * from './clock.js';
+export * from './ids.js';
+export * from './fixtures.js';
+export * from './query.js';
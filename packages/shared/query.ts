@@ -0,0 +1,272 @@
+/**
+ * Repository queries - typed predicates combinable with and/or/not, plus
+ * sorting and slicing, executed in memory or translated by a repository;
+ * and streaming reads that fetch matches in batches.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find References" on Predicate shows the backend repositories
+ * - "Go to Definition" on fieldsOf from the backend navigates here
+ * - Rename FieldPath and see the condition builders update
+ */
+
+/** Values a field can be compared with; null matches a missing value */
+export type QueryValue = string | number | boolean | Date | null;
+
+/** Field types treated as values rather than nested objects */
+type LeafValue = string | number | boolean | bigint | symbol | null | undefined | Date | readonly unknown[];
+
+/** Dotted paths to the fields of T, including nested ones */
+export type FieldPath<T> = {
+  [K in keyof T & string]: NonNullable<T[K]> extends LeafValue
+    ? K
+    : K | `${K}.${FieldPath<NonNullable<T[K]>>}`;
+}[keyof T & string];
+
+/** Type of the field at a path */
+export type FieldType<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? FieldType<NonNullable<T[K]>, Rest>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+/** Comparison operators */
+export type ComparisonOperator = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte';
+
+/** A condition on the entities of type T */
+export type Predicate<T> =
+  | { kind: 'and'; predicates: Predicate<T>[] }
+  | { kind: 'or'; predicates: Predicate<T>[] }
+  | { kind: 'not'; predicate: Predicate<T> }
+  | { kind: 'compare'; field: FieldPath<T>; operator: ComparisonOperator; value: QueryValue }
+  | { kind: 'oneOf'; field: FieldPath<T>; values: QueryValue[] }
+  /** Case-insensitive equality of a string field */
+  | { kind: 'equalsIgnoreCase'; field: FieldPath<T>; value: string }
+  /** Case-insensitive substring match on a string field */
+  | { kind: 'contains'; field: FieldPath<T>; value: string }
+  /** Array field holding at least one of the values */
+  | { kind: 'includesAny'; field: FieldPath<T>; values: QueryValue[] };
+
+/** A sort key; `field` may be a dotted path */
+export interface QuerySort<T> {
+  field: FieldPath<T>;
+  order: 'asc' | 'desc';
+}
+
+/** What to find: a predicate, sort keys and a slice of the sorted matches */
+export interface Query<T> {
+  where?: Predicate<T>;
+  /** Matches keep storage order without sort keys */
+  sort?: QuerySort<T>[];
+  limit?: number;
+  offset?: number;
+}
+
+/** Options for streaming reads */
+export interface StreamOptions<T> {
+  where?: Predicate<T>;
+  /** Entities fetched from storage at a time (defaults to DEFAULT_STREAM_BATCH_SIZE) */
+  batchSize?: number;
+}
+
+/** Batch size of streaming reads when none is given */
+export const DEFAULT_STREAM_BATCH_SIZE = 100;
+
+/** Comparable value of a field */
+type ValueOf<T, P extends string> = Extract<FieldType<T, P>, QueryValue>;
+
+/** Element type of an array field */
+type ElementOf<T, P extends string> = NonNullable<FieldType<T, P>> extends readonly (infer E)[] ? E : never;
+
+/** Condition builders for the fields of T */
+export interface FieldConditions<T> {
+  eq<P extends FieldPath<T>>(field: P, value: ValueOf<T, P> | null): Predicate<T>;
+  ne<P extends FieldPath<T>>(field: P, value: ValueOf<T, P> | null): Predicate<T>;
+  lt<P extends FieldPath<T>>(field: P, value: ValueOf<T, P>): Predicate<T>;
+  lte<P extends FieldPath<T>>(field: P, value: ValueOf<T, P>): Predicate<T>;
+  gt<P extends FieldPath<T>>(field: P, value: ValueOf<T, P>): Predicate<T>;
+  gte<P extends FieldPath<T>>(field: P, value: ValueOf<T, P>): Predicate<T>;
+  oneOf<P extends FieldPath<T>>(field: P, values: ValueOf<T, P>[]): Predicate<T>;
+  eqIgnoreCase<P extends FieldPath<T>>(field: P, value: string): Predicate<T>;
+  contains<P extends FieldPath<T>>(field: P, value: string): Predicate<T>;
+  includesAny<P extends FieldPath<T>>(field: P, values: ElementOf<T, P>[]): Predicate<T>;
+}
+
+/** Condition builders checked against the fields of T */
+export function fieldsOf<T>(): FieldConditions<T> {
+  const compare =
+    (operator: ComparisonOperator) =>
+    (field: FieldPath<T>, value: QueryValue): Predicate<T> => ({ kind: 'compare', field, operator, value });
+  return {
+    eq: compare('eq'),
+    ne: compare('ne'),
+    lt: compare('lt'),
+    lte: compare('lte'),
+    gt: compare('gt'),
+    gte: compare('gte'),
+    oneOf: (field, values) => ({ kind: 'oneOf', field, values }),
+    eqIgnoreCase: (field, value) => ({ kind: 'equalsIgnoreCase', field, value }),
+    contains: (field, value) => ({ kind: 'contains', field, value }),
+    includesAny: (field, values) => ({ kind: 'includesAny', field, values: values as QueryValue[] }),
+  };
+}
+
+/** Matches when every predicate matches; undefined predicates are skipped */
+export function and<T>(...predicates: (Predicate<T> | undefined)[]): Predicate<T> {
+  return { kind: 'and', predicates: predicates.filter(isPredicate) };
+}
+
+/** Matches when any predicate matches; undefined predicates are skipped */
+export function or<T>(...predicates: (Predicate<T> | undefined)[]): Predicate<T> {
+  return { kind: 'or', predicates: predicates.filter(isPredicate) };
+}
+
+/** Matches when the predicate does not */
+export function not<T>(predicate: Predicate<T>): Predicate<T> {
+  return { kind: 'not', predicate };
+}
+
+function isPredicate<T>(predicate: Predicate<T> | undefined): predicate is Predicate<T> {
+  return predicate !== undefined;
+}
+
+/** Reads a (possibly nested) field by dotted path */
+function fieldValue(source: object, path: string): unknown {
+  let current: unknown = source;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/** Compares two present values */
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b));
+}
+
+/** Whether a field value equals a query value; null equals a missing value */
+function equalsValue(actual: unknown, value: QueryValue): boolean {
+  if (value === null) {
+    return actual === null || actual === undefined;
+  }
+  if (actual instanceof Date && value instanceof Date) {
+    return actual.getTime() === value.getTime();
+  }
+  return actual === value;
+}
+
+function compareWith(operator: ComparisonOperator, actual: unknown, value: QueryValue): boolean {
+  if (operator === 'eq') return equalsValue(actual, value);
+  if (operator === 'ne') return !equalsValue(actual, value);
+  // Ordering comparisons never match a missing value
+  if (actual === null || actual === undefined || value === null) return false;
+  const result = compareValues(actual, value);
+  switch (operator) {
+    case 'lt':
+      return result < 0;
+    case 'lte':
+      return result <= 0;
+    case 'gt':
+      return result > 0;
+    case 'gte':
+      return result >= 0;
+  }
+}
+
+/** Whether an entity matches a predicate */
+export function matches<T extends object>(entity: T, predicate: Predicate<T>): boolean {
+  switch (predicate.kind) {
+    case 'and':
+      return predicate.predicates.every(inner => matches(entity, inner));
+    case 'or':
+      return predicate.predicates.some(inner => matches(entity, inner));
+    case 'not':
+      return !matches(entity, predicate.predicate);
+    case 'compare':
+      return compareWith(predicate.operator, fieldValue(entity, predicate.field), predicate.value);
+    case 'oneOf': {
+      const actual = fieldValue(entity, predicate.field);
+      return predicate.values.some(value => equalsValue(actual, value));
+    }
+    case 'equalsIgnoreCase': {
+      const actual = fieldValue(entity, predicate.field);
+      return typeof actual === 'string' && actual.toLowerCase() === predicate.value.toLowerCase();
+    }
+    case 'contains': {
+      const actual = fieldValue(entity, predicate.field);
+      return typeof actual === 'string' && actual.toLowerCase().includes(predicate.value.toLowerCase());
+    }
+    case 'includesAny': {
+      const actual = fieldValue(entity, predicate.field);
+      return (
+        Array.isArray(actual) &&
+        predicate.values.some(value => actual.some(element => equalsValue(element, value)))
+      );
+    }
+  }
+}
+
+/** Sorts a copy of the entities (stable); missing values sort last, or first when descending */
+function sortEntities<T extends object>(entities: T[], sort: QuerySort<T>[]): T[] {
+  if (sort.length === 0) {
+    return [...entities];
+  }
+  return [...entities].sort((a, b) => {
+    for (const { field, order } of sort) {
+      const left = fieldValue(a, field);
+      const right = fieldValue(b, field);
+      const leftMissing = left === null || left === undefined;
+      const rightMissing = right === null || right === undefined;
+      const result =
+        leftMissing || rightMissing ? Number(leftMissing) - Number(rightMissing) : compareValues(left, right);
+      if (result !== 0) {
+        return order === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+/** Runs a query over entities held in memory */
+export function applyQuery<T extends object>(entities: T[], query: Query<T> = {}): T[] {
+  const { where } = query;
+  const matching = where ? entities.filter(entity => matches(entity, where)) : entities;
+  const sorted = sortEntities(matching, query.sort ?? []);
+  const start = query.offset ?? 0;
+  return sorted.slice(start, query.limit === undefined ? undefined : start + query.limit);
+}
+
+/** Counts the entities held in memory that match a predicate */
+export function countMatching<T extends object>(entities: T[], where?: Predicate<T>): number {
+  return where ? entities.filter(entity => matches(entity, where)).length : entities.length;
+}
+
+/**
+ * Streams the matching entities of an in-memory collection without copying
+ * it, yielding to the event loop after every batch.
+ */
+export async function* streamEntities<T extends object>(
+  entities: Iterable<T>,
+  options: StreamOptions<T> = {}
+): AsyncGenerator<T> {
+  const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+  const { where } = options;
+  let batched = 0;
+  for (const entity of entities) {
+    if (where && !matches(entity, where)) {
+      continue;
+    }
+    yield entity;
+    if (++batched >= batchSize) {
+      batched = 0;
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+}
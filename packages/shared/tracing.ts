@@ -0,0 +1,84 @@
+/**
+ * W3C Trace Context helpers shared by the frontend client and the backend.
+ *
+ * PROJECT REFERENCES TEST SCENARIOS:
+ * - "Find References" on formatTraceparent shows the frontend ApiClient
+ * - "Find References" on parseTraceparent shows the backend tracer
+ * - Rename SpanContext and see both packages update
+ */
+
+import { cryptoRandom } from './ids.js';
+
+/** HTTP header carrying the trace context */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/** Trace flag marking a trace as sampled */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+/** Identifies a span within a trace */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  traceFlags: number;
+}
+
+/** Random lowercase hex string of the given length */
+function randomHex(length: number): string {
+  const bytes = cryptoRandom(Math.ceil(length / 2));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').slice(0, length);
+}
+
+/** Generates a trace id (never all zeros) */
+export function generateTraceId(): string {
+  const id = randomHex(32);
+  return /^0+$/.test(id) ? generateTraceId() : id;
+}
+
+/** Generates a span id (never all zeros) */
+export function generateSpanId(): string {
+  const id = randomHex(16);
+  return /^0+$/.test(id) ? generateSpanId() : id;
+}
+
+/** Starts a new trace, or a child span of the given parent */
+export function createSpanContext(parent?: SpanContext): SpanContext {
+  return {
+    traceId: parent?.traceId ?? generateTraceId(),
+    spanId: generateSpanId(),
+    traceFlags: parent?.traceFlags ?? TRACE_FLAG_SAMPLED,
+  };
+}
+
+/** Formats a `traceparent` header value (version 00) */
+export function formatTraceparent(context: SpanContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Parses a `traceparent` header value.
+ * Returns null for malformed values, all-zero ids and the invalid version `ff`.
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/.exec(header?.trim() ?? '');
+  if (!match) {
+    return null;
+  }
+
+  const [, version = '', traceId = '', spanId = '', flags = ''] = match;
+  // Version 00 has exactly four fields; later versions may append more
+  if (version === 'ff' || (version === '00' && match[5] !== undefined)) {
+    return null;
+  }
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+    return null;
+  }
+  return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/** Whether the trace is sampled */
+export function isSampled(context: SpanContext): boolean {
+  return (context.traceFlags & TRACE_FLAG_SAMPLED) === TRACE_FLAG_SAMPLED;
+}
@@ -7,6 +7,9 @@
  */
 
 import type { Result, PaginatedResponse, PaginationParams, SharedEntity } from './types.js';
+import type { Clock } from './clock.js';
+import { getClock } from './clock.js';
+import { getIdGenerator } from './ids.js';
 
 /** Creates a success result */
 export function createSuccess<T>(value: T): Result<T> {
@@ -29,14 +32,14 @@ export function unwrapResult<T>(result: Result<T>): T {
   return result.value;
 }
 
-/** Generates a unique ID */
+/** Generates a unique ID with the active strategy (ULID unless replaced via setIdGenerator) */
 export function generateUniqueId(): string {
-  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 11)}`;
+  return getIdGenerator().next();
 }
 
 /** Creates base entity fields */
-export function createEntityFields(): Omit<SharedEntity, never> {
-  const now = new Date();
+export function createEntityFields(clock: Clock = getClock()): Omit<SharedEntity, never> {
+  const now = clock.now();
   return {
     id: generateUniqueId(),
     createdAt: now,
@@ -45,10 +48,10 @@ export function createEntityFields(): Omit<SharedEntity, never> {
 }
 
 /** Updates the updatedAt field */
-export function touchEntity<T extends SharedEntity>(entity: T): T {
+export function touchEntity<T extends SharedEntity>(entity: T, clock: Clock = getClock()): T {
   return {
     ...entity,
-    updatedAt: new Date(),
+    updatedAt: clock.now(),
   };
 }
 
@@ -13,6 +13,8 @@ export interface ValidationError {
   field: string;
   message: string;
   code: string;
+  /** Values for the placeholders of a translated message (see i18n.ts) */
+  params?: Record<string, string | number>;
 }
 
 /** Validation result type */
@@ -70,6 +72,7 @@ export function validateName(name: string, fieldName: string = 'name'): Validati
       field: fieldName,
       message: `${fieldName} must be at least 2 characters`,
       code: 'MIN_LENGTH',
+      params: { min: 2 },
     }]);
   }
   
@@ -78,6 +81,7 @@ export function validateName(name: string, fieldName: string = 'name'): Validati
       field: fieldName,
       message: `${fieldName} must not exceed 100 characters`,
       code: 'MAX_LENGTH',
+      params: { max: 100 },
     }]);
   }
   
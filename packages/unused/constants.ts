@@ -20,10 +20,14 @@ export const API_VERSION = 'v1';
 export enum HttpStatus {
   OK = 200,
   Created = 201,
+  NoContent = 204,
   BadRequest = 400,
   Unauthorized = 401,
   Forbidden = 403,
   NotFound = 404,
+  MethodNotAllowed = 405,
+  Conflict = 409,
+  PayloadTooLarge = 413,
   InternalServerError = 500,
 }
 
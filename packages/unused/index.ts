@@ -1,8 +1,9 @@
 /**
  * Unused package - for auto-import testing.
  * 
- * This package exports symbols that are not imported anywhere.
- * Use it to test IDE auto-import functionality.
+ * This package exports symbols that are mostly not imported anywhere.
+ * Use it to test IDE auto-import functionality. The exception is `Logger`,
+ * which the backend logger implements.
  */
 
 export * from './helpers';
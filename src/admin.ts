@@ -0,0 +1,30 @@
+/**
+ * Admin command-line interface.
+ *
+ * Usage: node admin.js <group> <command> [arguments] [--json]
+ * Without arguments, commands are read one per line from stdin and run
+ * against the same services. Data is kept in memory unless ADMIN_DATA_DIR
+ * names a directory to store it in as JSON files.
+ */
+
+import { createInterface } from 'node:readline';
+import { createCliServices, runCommand, runScript } from './cli/runner.js';
+import { jsonFileStorage } from './app/application.js';
+
+const argv = process.argv.slice(2);
+const dataDirectory = process.env['ADMIN_DATA_DIR'];
+const services = createCliServices(dataDirectory ? { repositories: jsonFileStorage(dataDirectory) } : {});
+
+const run =
+  argv.length > 0
+    ? runCommand(argv, services)
+    : runScript(createInterface({ input: process.stdin, terminal: false }), services);
+
+run
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,76 @@
+/**
+ * Feature flag evaluation for requests - builds the flag subject from the
+ * RequestContext and the calling user.
+ *
+ * Test scenarios:
+ * - "Find References" on FeatureFlags shows the handlers and the composition root
+ * - "Go to Definition" on FlagRegistry navigates to core/flags.ts
+ * - Rename flagSubjectOf and see subjectFor update
+ */
+
+import type { FlagEvaluation, FlagSubject, FlagValue } from '../core/flags.js';
+import { FlagRegistry } from '../core/flags.js';
+import type { User } from '../models/user.js';
+import type { RequestContext } from './handlers.js';
+import { tenantOf } from './handlers.js';
+
+/** Loads the calling user of a request, if there is one */
+export type UserLookup = (context: RequestContext) => Promise<User | null>;
+
+/** Flag subject for a request, with role and email when the user is known */
+export function flagSubjectOf(context: RequestContext, user?: User | null): FlagSubject {
+  return {
+    tenantId: tenantOf(context),
+    ...(context.userId !== undefined && { userId: context.userId }),
+    ...(user && { role: user.role, email: user.email }),
+  };
+}
+
+/**
+ * Evaluates flags for requests.
+ * The calling user is looked up once per RequestContext, so a handler and
+ * the code it calls can evaluate several flags without repeated lookups.
+ */
+export class FeatureFlags {
+  private subjects = new WeakMap<RequestContext, Promise<FlagSubject>>();
+
+  constructor(
+    readonly registry: FlagRegistry = new FlagRegistry(),
+    private readonly lookupUser?: UserLookup
+  ) {}
+
+  /** Flag subject for a request */
+  subjectFor(context: RequestContext): Promise<FlagSubject> {
+    let subject = this.subjects.get(context);
+    if (!subject) {
+      subject = this.resolveSubject(context);
+      this.subjects.set(context, subject);
+    }
+    return subject;
+  }
+
+  /** Evaluates a flag for a request */
+  async evaluate(key: string, context: RequestContext): Promise<FlagEvaluation> {
+    return this.registry.evaluate(key, await this.subjectFor(context));
+  }
+
+  /** Whether a boolean flag is on for a request */
+  async isEnabled(key: string, context: RequestContext, fallback: boolean = false): Promise<boolean> {
+    return this.registry.isEnabled(key, await this.subjectFor(context), fallback);
+  }
+
+  /** Value of a flag for a request, or the fallback */
+  async getValue<V extends FlagValue>(key: string, context: RequestContext, fallback: V): Promise<V> {
+    return this.registry.getValue(key, await this.subjectFor(context), fallback);
+  }
+
+  /** Values of every flag for a request */
+  async evaluateAll(context: RequestContext): Promise<Record<string, FlagValue>> {
+    return this.registry.evaluateAll(await this.subjectFor(context));
+  }
+
+  private async resolveSubject(context: RequestContext): Promise<FlagSubject> {
+    const user = context.userId !== undefined && this.lookupUser ? await this.lookupUser(context) : null;
+    return flagSubjectOf(context, user);
+  }
+}
@@ -9,17 +9,64 @@
 
 import type { OperationResult } from '../core/types.js';
 import { formatDate } from '../core/utils.js';
+import type { AppError, ErrorCode, FieldError } from '../core/errors.js';
+import { NotFoundError, UnauthenticatedError, ValidationError, toAppError } from '../core/errors.js';
+import type { PageMeta } from '../core/listing.js';
+import type { Logger } from '../core/logger.js';
+import { bindLogger, silentLogger, withLogContext } from '../core/logger.js';
+import type { TenantResolver } from '../core/tenancy.js';
+import type { FlagValue } from '../core/flags.js';
+import type { SupportedLocale } from '../core/i18n.js';
+import { localizeFieldErrors } from '../core/i18n.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
+import type { BulkItemStatus, BulkOptions, BulkReport, BulkItemResult } from '../core/bulk.js';
+import { MAX_BULK_ITEMS, createBulkReport } from '../core/bulk.js';
 import type { User } from '../models/user.js';
-import { UserRole, InMemoryUserRepository } from '../models/user.js';
+import { UserRole } from '../models/user.js';
 import type { Product, Price } from '../models/product.js';
-import { ProductCategory, InMemoryProductRepository } from '../models/product.js';
+import { ProductCategory } from '../models/product.js';
+import type { UserListQuery, UserRegistration } from '../services/userService.js';
 import { UserService, authenticateUser, getUserDisplayInfo } from '../services/userService.js';
-import { ProductService, calculateInventoryValue, groupByCategory } from '../services/productService.js';
+import type {
+  ProductListQuery,
+  ProductInput,
+  StockUpdate,
+  PriceUpdate,
+  CategorySummary,
+} from '../services/productService.js';
+import {
+  ProductService,
+  calculateInventoryValueFromStream,
+  groupByCategory,
+  summarizeCategoriesFromStream,
+} from '../services/productService.js';
+import type { ValidatedOperation } from './validation.js';
+import { validateInput } from './validation.js';
+import { IdempotencyGuard } from './idempotency.js';
+import { FeatureFlags } from './flags.js';
 
 /** Request context */
 export interface RequestContext {
   userId?: string;
   timestamp: Date;
+  /** Client-supplied key making a mutating request safe to retry */
+  idempotencyKey?: string;
+  /** Id tying together the log lines of one request */
+  correlationId?: string;
+  /** Tenant the request acts on (defaults to DEFAULT_TENANT_ID) */
+  tenantId?: string;
+  /** Locale field error messages are translated into (untranslated when unset) */
+  locale?: SupportedLocale;
+}
+
+/** Tenant a request acts on */
+export function tenantOf(context: RequestContext): string {
+  return context.tenantId ?? DEFAULT_TENANT_ID;
+}
+
+/** Field errors translated into the request's locale, if it has one */
+function localizedErrors(errors: FieldError[], context: RequestContext): FieldError[] {
+  return context.locale ? localizeFieldErrors(errors, context.locale) : errors;
 }
 
 /** API response wrapper */
@@ -27,26 +74,219 @@ export interface ApiResponse<T> {
   status: 'success' | 'error';
   data?: T;
   message?: string;
+  /** Machine-readable error code (set when status is "error") */
+  code?: ErrorCode;
+  /** Field-level validation errors */
+  errors?: FieldError[];
+  /** Page metadata for list responses */
+  pagination?: PageMeta;
   requestedAt: string;
 }
 
 /** Creates an API response */
-function createResponse<T>(result: OperationResult<T>, context: RequestContext): ApiResponse<T> {
+export function createResponse<T>(result: OperationResult<T>, context: RequestContext): ApiResponse<T> {
+  if (!result.success && result.error) {
+    return errorResponse(result.error, context);
+  }
   return {
     status: result.success ? 'success' : 'error',
     data: result.data,
-    message: result.error,
     requestedAt: formatDate(context.timestamp),
   };
 }
 
+/** Creates an error API response from an application error */
+export function errorResponse<T>(error: AppError, context: RequestContext): ApiResponse<T> {
+  return {
+    status: 'error',
+    message: error.message,
+    code: error.code,
+    ...(error instanceof ValidationError && { errors: localizedErrors(error.errors, context) }),
+    requestedAt: formatDate(context.timestamp),
+  };
+}
+
+/** Creates an error response for input that failed validation */
+export function validationFailure<T>(errors: FieldError[], context: RequestContext): ApiResponse<T> {
+  return errorResponse(new ValidationError(errors), context);
+}
+
+/**
+ * Runs a handler operation and logs its outcome, bound to the request's
+ * correlation id, which also tags everything logged while the operation
+ * runs. Failures are logged at warn (error for INTERNAL).
+ */
+async function logged<T>(
+  logger: Logger,
+  context: RequestContext,
+  operation: string,
+  run: () => Promise<ApiResponse<T>>
+): Promise<ApiResponse<T>> {
+  const log = bindLogger(logger, {
+    correlationId: context.correlationId,
+    tenantId: tenantOf(context),
+    userId: context.userId,
+    operation,
+  });
+  const start = Date.now();
+  try {
+    // Services log through their own loggers; the context tags their records too
+    const response = await withLogContext({ correlationId: context.correlationId }, run);
+    const durationMs = Date.now() - start;
+    if (response.status === 'success') {
+      log.info('Request succeeded', { durationMs });
+    } else {
+      log.log(response.code === 'INTERNAL' ? 'error' : 'warn', 'Request failed', {
+        durationMs,
+        code: response.code,
+        error: response.message,
+        errors: response.errors,
+      });
+    }
+    return response;
+  } catch (error) {
+    // Expected failures (e.g. a forbidden tenant) are thrown too; only internal ones are errors
+    const code = toAppError(error).code;
+    log.log(code === 'INTERNAL' ? 'error' : 'warn', 'Request threw', {
+      durationMs: Date.now() - start,
+      code,
+      error,
+    });
+    throw error;
+  }
+}
+
+/** Result for one item of a bulk request */
+export interface BulkItemResponse<T> {
+  index: number;
+  status: BulkItemStatus;
+  data?: T;
+  code?: ErrorCode;
+  message?: string;
+  errors?: FieldError[];
+}
+
+/** Per-item report returned by bulk endpoints */
+export interface BulkResponse<T> {
+  atomic: boolean;
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResponse<T>[];
+}
+
+/** Converts a bulk report into an API response (an error if it was rolled back) */
+export function createBulkResponse<T>(
+  report: BulkReport<T>,
+  context: RequestContext
+): ApiResponse<BulkResponse<T>> {
+  const data: BulkResponse<T> = {
+    ...report,
+    results: report.results.map(({ index, status, data: item, error }) => ({
+      index,
+      status,
+      ...(item !== undefined && { data: item }),
+      ...(error && { code: error.code, message: error.message }),
+      ...(error instanceof ValidationError && { errors: localizedErrors(error.errors, context) }),
+    })),
+  };
+
+  const cause = report.results.find(result => result.status === 'failed')?.error;
+  if (!report.committed && cause) {
+    return {
+      ...errorResponse(cause, context),
+      message: `Bulk operation rolled back: ${cause.message}`,
+      data,
+    };
+  }
+  return {
+    status: 'success',
+    data,
+    requestedAt: formatDate(context.timestamp),
+  };
+}
+
+/**
+ * Validates each item of a bulk request, then runs the valid items.
+ * In atomic mode any invalid item rejects the whole request; otherwise invalid
+ * items are reported as failed and the rest are applied.
+ */
+async function runValidatedBulk<I, T>(
+  items: I[],
+  operation: ValidatedOperation,
+  options: BulkOptions,
+  context: RequestContext,
+  toInput: (item: I) => Record<string, unknown>,
+  run: (validItems: I[]) => Promise<BulkReport<T>>
+): Promise<ApiResponse<BulkResponse<T>>> {
+  if (!Array.isArray(items) || items.length === 0) {
+    return validationFailure(
+      [
+        {
+          field: 'items',
+          code: 'REQUIRED',
+          message: 'items must be a non-empty array',
+          params: { kind: 'nonEmptyArray' },
+        },
+      ],
+      context
+    );
+  }
+  if (items.length > MAX_BULK_ITEMS) {
+    return validationFailure(
+      [
+        {
+          field: 'items',
+          code: 'MAX_ITEMS',
+          message: `items must not exceed ${MAX_BULK_ITEMS} entries`,
+          params: { max: MAX_BULK_ITEMS },
+        },
+      ],
+      context
+    );
+  }
+
+  const itemErrors = items.map(item => validateInput(operation, toInput(item)));
+  if (options.atomic && itemErrors.some(errors => errors.length > 0)) {
+    const errors = itemErrors.flatMap((fieldErrors, index) =>
+      fieldErrors.map(error => ({ ...error, field: `items[${index}].${error.field}` }))
+    );
+    return validationFailure(errors, context);
+  }
+
+  const validIndexes = items.map((_, index) => index).filter(index => itemErrors[index]?.length === 0);
+  const report = await run(validIndexes.map(index => items[index] as I));
+
+  // Map results for the valid subset back onto the original positions
+  const byIndex = new Map<number, BulkItemResult<T>>();
+  validIndexes.forEach((originalIndex, position) => {
+    const result = report.results[position];
+    if (result) {
+      byIndex.set(originalIndex, { ...result, index: originalIndex });
+    }
+  });
+  const results = items.map((_, index): BulkItemResult<T> =>
+    byIndex.get(index) ?? {
+      index,
+      status: 'failed',
+      error: new ValidationError(itemErrors[index] ?? []),
+    }
+  );
+  return createBulkResponse(createBulkReport(results, report.atomic, report.committed), context);
+}
+
 /** User API handler */
 export class UserApiHandler {
-  private service: UserService;
+  constructor(
+    private readonly services: TenantResolver<UserService>,
+    private readonly idempotency: IdempotencyGuard = new IdempotencyGuard(),
+    private readonly logger: Logger = silentLogger,
+    private readonly flags: FeatureFlags = new FeatureFlags()
+  ) {}
 
-  constructor() {
-    const repository = new InMemoryUserRepository();
-    this.service = new UserService(repository);
+  /** Service of the tenant a request acts on */
+  private serviceFor(context: RequestContext): UserService {
+    return this.services(tenantOf(context));
   }
 
   /** Handle user registration request */
@@ -56,29 +296,67 @@ export class UserApiHandler {
     displayName: string,
     context: RequestContext
   ): Promise<ApiResponse<User>> {
-    const result = await this.service.registerUser(email, username, displayName);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'register', async () => {
+      const errors = validateInput('registerUser', { email, username, displayName });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      return this.idempotency.execute(context, 'registerUser', { email, username, displayName }, async () => {
+        const result = await this.serviceFor(context).registerUser(email, username, displayName);
+        return createResponse(result, context);
+      });
+    });
+  }
+
+  /** Handle a request for the feature flag values of the caller */
+  async handleGetFeatureFlags(context: RequestContext): Promise<ApiResponse<Record<string, FlagValue>>> {
+    return logged(this.logger, context, 'getFeatureFlags', async () => ({
+      status: 'success',
+      data: await this.flags.evaluateAll(context),
+      requestedAt: formatDate(context.timestamp),
+    }));
   }
 
   /** Handle get user request */
   async handleGetUser(id: string, context: RequestContext): Promise<ApiResponse<User | null>> {
-    const user = await this.service.getUserById(id);
-    return {
-      status: user ? 'success' : 'error',
-      data: user,
-      message: user ? undefined : `User ${id} not found`,
-      requestedAt: formatDate(context.timestamp),
-    };
+    return logged(this.logger, context, 'getUser', async () => {
+      const errors = validateInput('getUser', { id });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const user = await this.serviceFor(context).getUserById(id);
+      if (!user) {
+        return errorResponse(NotFoundError.forEntity('User', id), context);
+      }
+      return {
+        status: 'success',
+        data: user,
+        requestedAt: formatDate(context.timestamp),
+      };
+    });
   }
 
   /** Handle list users request */
-  async handleListUsers(context: RequestContext): Promise<ApiResponse<User[]>> {
-    const users = await this.service.getAllUsers();
-    return {
-      status: 'success',
-      data: users,
-      requestedAt: formatDate(context.timestamp),
-    };
+  async handleListUsers(
+    context: RequestContext,
+    query: UserListQuery = {}
+  ): Promise<ApiResponse<User[]>> {
+    return logged(this.logger, context, 'listUsers', async () => {
+      const errors = validateInput('listUsers', { ...query });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const page = await this.serviceFor(context).listUsers(query);
+      return {
+        status: 'success',
+        data: page.items,
+        pagination: page.meta,
+        requestedAt: formatDate(context.timestamp),
+      };
+    });
   }
 
   /** Handle update profile request */
@@ -87,8 +365,15 @@ export class UserApiHandler {
     updates: Partial<Pick<User, 'displayName' | 'email'>>,
     context: RequestContext
   ): Promise<ApiResponse<User>> {
-    const result = await this.service.updateUserProfile(id, updates);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'updateProfile', async () => {
+      const errors = validateInput('updateUserProfile', { id, ...updates });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const result = await this.serviceFor(context).updateUserProfile(id, updates);
+      return createResponse(result, context);
+    });
   }
 
   /** Handle role change request */
@@ -97,27 +382,72 @@ export class UserApiHandler {
     newRole: UserRole,
     context: RequestContext
   ): Promise<ApiResponse<User>> {
-    if (!context.userId) {
-      return {
-        status: 'error',
-        message: 'Authentication required',
-        requestedAt: formatDate(context.timestamp),
-      };
-    }
-    const result = await this.service.changeUserRole(context.userId, targetUserId, newRole);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'changeRole', async () => {
+      const errors = validateInput('changeUserRole', { targetUserId, role: newRole });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      if (!context.userId) {
+        return errorResponse(new UnauthenticatedError(), context);
+      }
+      const result = await this.serviceFor(context).changeUserRole(context.userId, targetUserId, newRole);
+      return createResponse(result, context);
+    });
   }
 
   /** Handle deactivate user request */
   async handleDeactivateUser(id: string, context: RequestContext): Promise<ApiResponse<User>> {
-    const result = await this.service.deactivateUser(id);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'deactivateUser', async () => {
+      const errors = validateInput('deactivateUser', { id });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const result = await this.serviceFor(context).deactivateUser(id);
+      return createResponse(result, context);
+    });
   }
 
   /** Handle delete user request */
   async handleDeleteUser(id: string, context: RequestContext): Promise<ApiResponse<void>> {
-    const result = await this.service.deleteUser(id);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'deleteUser', async () => {
+      const errors = validateInput('deleteUser', { id });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const result = await this.serviceFor(context).deleteUser(id);
+      return createResponse(result, context);
+    });
+  }
+
+  /** Handle bulk user registration request */
+  async handleBulkRegister(
+    registrations: UserRegistration[],
+    options: BulkOptions,
+    context: RequestContext
+  ): Promise<ApiResponse<BulkResponse<User>>> {
+    return logged(this.logger, context, 'bulkRegister', async () => {
+      return this.idempotency.execute(context, 'bulkRegisterUsers', { registrations, options }, () =>
+        runValidatedBulk(registrations, 'registerUser', options, context, item => ({ ...item }), valid =>
+          this.serviceFor(context).bulkRegisterUsers(valid, options)
+        )
+      );
+    });
+  }
+
+  /** Handle bulk deactivate users request */
+  async handleBulkDeactivateUsers(
+    ids: string[],
+    options: BulkOptions,
+    context: RequestContext
+  ): Promise<ApiResponse<BulkResponse<User>>> {
+    return logged(this.logger, context, 'bulkDeactivateUsers', async () => {
+      return runValidatedBulk(ids, 'deactivateUser', options, context, id => ({ id }), valid =>
+        this.serviceFor(context).bulkDeactivateUsers(valid, options)
+      );
+    });
   }
 
   /** Validate user authentication */
@@ -126,18 +456,22 @@ export class UserApiHandler {
   }
 
   /** Get user info for display */
-  getUserInfo(user: User): string {
-    return getUserDisplayInfo(user);
+  getUserInfo(user: User, locale?: SupportedLocale): string {
+    return getUserDisplayInfo(user, locale);
   }
 }
 
 /** Product API handler */
 export class ProductApiHandler {
-  private service: ProductService;
+  constructor(
+    private readonly services: TenantResolver<ProductService>,
+    private readonly idempotency: IdempotencyGuard = new IdempotencyGuard(),
+    private readonly logger: Logger = silentLogger
+  ) {}
 
-  constructor() {
-    const repository = new InMemoryProductRepository();
-    this.service = new ProductService(repository);
+  /** Service of the tenant a request acts on */
+  private serviceFor(context: RequestContext): ProductService {
+    return this.services(tenantOf(context));
   }
 
   /** Handle create product request */
@@ -149,29 +483,59 @@ export class ProductApiHandler {
     category: ProductCategory,
     context: RequestContext
   ): Promise<ApiResponse<Product>> {
-    const result = await this.service.createProduct(name, description, sku, price, category);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'createProduct', async () => {
+      const errors = validateInput('createProduct', { name, description, sku, price, category });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const payload = { name, description, sku, price, category };
+      return this.idempotency.execute(context, 'createProduct', payload, async () => {
+        const result = await this.serviceFor(context).createProduct(name, description, sku, price, category);
+        return createResponse(result, context);
+      });
+    });
   }
 
   /** Handle get product request */
   async handleGetProduct(id: string, context: RequestContext): Promise<ApiResponse<Product | null>> {
-    const product = await this.service.getProductById(id);
-    return {
-      status: product ? 'success' : 'error',
-      data: product,
-      message: product ? undefined : `Product ${id} not found`,
-      requestedAt: formatDate(context.timestamp),
-    };
+    return logged(this.logger, context, 'getProduct', async () => {
+      const errors = validateInput('getProduct', { id });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const product = await this.serviceFor(context).getProductById(id);
+      if (!product) {
+        return errorResponse(NotFoundError.forEntity('Product', id), context);
+      }
+      return {
+        status: 'success',
+        data: product,
+        requestedAt: formatDate(context.timestamp),
+      };
+    });
   }
 
   /** Handle list products request */
-  async handleListProducts(context: RequestContext): Promise<ApiResponse<Product[]>> {
-    const products = await this.service.getAllProducts();
-    return {
-      status: 'success',
-      data: products,
-      requestedAt: formatDate(context.timestamp),
-    };
+  async handleListProducts(
+    context: RequestContext,
+    query: ProductListQuery = {}
+  ): Promise<ApiResponse<Product[]>> {
+    return logged(this.logger, context, 'listProducts', async () => {
+      const errors = validateInput('listProducts', { ...query });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const page = await this.serviceFor(context).listProducts(query);
+      return {
+        status: 'success',
+        data: page.items,
+        pagination: page.meta,
+        requestedAt: formatDate(context.timestamp),
+      };
+    });
   }
 
   /** Handle update stock request */
@@ -180,8 +544,15 @@ export class ProductApiHandler {
     quantity: number,
     context: RequestContext
   ): Promise<ApiResponse<Product>> {
-    const result = await this.service.updateProductStock(id, quantity);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'updateStock', async () => {
+      const errors = validateInput('updateProductStock', { id, quantity });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const result = await this.serviceFor(context).updateProductStock(id, quantity);
+      return createResponse(result, context);
+    });
   }
 
   /** Handle update price request */
@@ -190,25 +561,99 @@ export class ProductApiHandler {
     price: Price,
     context: RequestContext
   ): Promise<ApiResponse<Product>> {
-    const result = await this.service.updateProductPrice(id, price);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'updatePrice', async () => {
+      const errors = validateInput('updateProductPrice', { id, price });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const result = await this.serviceFor(context).updateProductPrice(id, price);
+      return createResponse(result, context);
+    });
   }
 
   /** Handle delete product request */
   async handleDeleteProduct(id: string, context: RequestContext): Promise<ApiResponse<void>> {
-    const result = await this.service.deleteProduct(id);
-    return createResponse(result, context);
+    return logged(this.logger, context, 'deleteProduct', async () => {
+      const errors = validateInput('deleteProduct', { id });
+      if (errors.length > 0) {
+        return validationFailure(errors, context);
+      }
+
+      const result = await this.serviceFor(context).deleteProduct(id);
+      return createResponse(result, context);
+    });
+  }
+
+  /** Handle bulk create products request */
+  async handleBulkCreateProducts(
+    inputs: ProductInput[],
+    options: BulkOptions,
+    context: RequestContext
+  ): Promise<ApiResponse<BulkResponse<Product>>> {
+    return logged(this.logger, context, 'bulkCreateProducts', async () => {
+      return this.idempotency.execute(context, 'bulkCreateProducts', { inputs, options }, () =>
+        runValidatedBulk(inputs, 'createProduct', options, context, item => ({ ...item }), valid =>
+          this.serviceFor(context).bulkCreateProducts(valid, options)
+        )
+      );
+    });
+  }
+
+  /** Handle bulk update stock request */
+  async handleBulkUpdateStock(
+    updates: StockUpdate[],
+    options: BulkOptions,
+    context: RequestContext
+  ): Promise<ApiResponse<BulkResponse<Product>>> {
+    return logged(this.logger, context, 'bulkUpdateStock', async () => {
+      return runValidatedBulk(updates, 'updateProductStock', options, context, item => ({ ...item }), valid =>
+        this.serviceFor(context).bulkUpdateStock(valid, options)
+      );
+    });
+  }
+
+  /** Handle bulk update price request */
+  async handleBulkUpdatePrice(
+    updates: PriceUpdate[],
+    options: BulkOptions,
+    context: RequestContext
+  ): Promise<ApiResponse<BulkResponse<Product>>> {
+    return logged(this.logger, context, 'bulkUpdatePrice', async () => {
+      return runValidatedBulk(updates, 'updateProductPrice', options, context, item => ({ ...item }), valid =>
+        this.serviceFor(context).bulkUpdatePrice(valid, options)
+      );
+    });
+  }
+
+  /** Handle bulk deactivate products request */
+  async handleBulkDeactivateProducts(
+    ids: string[],
+    options: BulkOptions,
+    context: RequestContext
+  ): Promise<ApiResponse<BulkResponse<Product>>> {
+    return logged(this.logger, context, 'bulkDeactivateProducts', async () => {
+      return runValidatedBulk(ids, 'deactivateProduct', options, context, id => ({ id }), valid =>
+        this.serviceFor(context).bulkDeactivateProducts(valid, options)
+      );
+    });
+  }
+
+  /** Get the inventory value of a tenant, streaming its products */
+  async getInventoryValue(tenantId: string = DEFAULT_TENANT_ID): Promise<number> {
+    return calculateInventoryValueFromStream(this.services(tenantId).streamProducts(), tenantId);
   }
 
-  /** Get inventory value */
-  async getInventoryValue(): Promise<number> {
-    const products = await this.service.getAllProducts();
-    return calculateInventoryValue(products);
+  /** Get per-category product counts, stock and value of a tenant, streaming its products */
+  async getCategorySummary(
+    tenantId: string = DEFAULT_TENANT_ID
+  ): Promise<Map<ProductCategory, CategorySummary>> {
+    return summarizeCategoriesFromStream(this.services(tenantId).streamProducts(), tenantId);
   }
 
-  /** Get products grouped by category */
-  async getProductsByCategory(): Promise<Map<ProductCategory, Product[]>> {
-    const products = await this.service.getAllProducts();
-    return groupByCategory(products);
+  /** Get the products of a tenant grouped by category */
+  async getProductsByCategory(tenantId: string = DEFAULT_TENANT_ID): Promise<Map<ProductCategory, Product[]>> {
+    const products = await this.services(tenantId).getAllProducts();
+    return groupByCategory(products, tenantId);
   }
 }
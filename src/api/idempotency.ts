@@ -0,0 +1,197 @@
+/**
+ * Idempotency keys for mutating API operations.
+ * A repeated request with the same key and payload replays the stored response;
+ * the same key with a different payload is rejected as a conflict.
+ *
+ * Test scenarios:
+ * - "Find Implementations" on IdempotencyStore
+ * - "Find References" on IdempotencyGuard shows the handlers using it
+ * - Rename fingerprintPayload and see the guard update
+ */
+
+import { ConflictError } from '../core/errors.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
+import type { Clock } from '../core/clock.js';
+import { getClock } from '../core/clock.js';
+import type { ApiResponse, RequestContext } from './handlers.js';
+import { errorResponse } from './handlers.js';
+
+/** A stored response for an idempotency key */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  response: ApiResponse<unknown>;
+  expiresAt: number;
+}
+
+/** Storage for idempotency records */
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  /** Stores a record expiring `ttlMs` from now, as told by the store's own clock */
+  set(key: string, record: Omit<IdempotencyRecord, 'expiresAt'>, ttlMs: number): Promise<void>;
+}
+
+/** Default retention window for idempotency keys (24 hours) */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Options for InMemoryIdempotencyStore */
+export interface InMemoryIdempotencyStoreOptions {
+  /** Records kept before the oldest is dropped (defaults to 10000) */
+  maxRecords?: number;
+  /** Clock for expiry (defaults to getClock()) */
+  clock?: Clock;
+}
+
+/**
+ * In-memory idempotency store. Expired records are dropped when read and,
+ * oldest first, on every write; once `maxRecords` is reached the oldest
+ * record is dropped even if it has not expired.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  /** Records in the order they were stored, oldest first */
+  private records: Map<string, IdempotencyRecord> = new Map();
+  private readonly maxRecords: number;
+
+  constructor(private readonly options: InMemoryIdempotencyStoreOptions = {}) {
+    this.maxRecords = options.maxRecords ?? 10_000;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+    if (record.expiresAt <= this.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return record;
+  }
+
+  async set(key: string, record: Omit<IdempotencyRecord, 'expiresAt'>, ttlMs: number): Promise<void> {
+    const now = this.now();
+    this.records.delete(key);
+    this.records.set(key, { ...record, expiresAt: now + ttlMs });
+    for (const [oldestKey, oldest] of this.records) {
+      if (oldest.expiresAt > now && this.records.size <= this.maxRecords) {
+        break;
+      }
+      this.records.delete(oldestKey);
+    }
+  }
+
+  /** Number of records held, including expired ones not yet dropped */
+  get size(): number {
+    return this.records.size;
+  }
+
+  private now(): number {
+    return (this.options.clock ?? getClock()).now().getTime();
+  }
+}
+
+/** Serializes a value with sorted object keys so equal payloads compare equal */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Computes the fingerprint of an operation and its payload */
+export function fingerprintPayload(operation: string, payload: unknown): string {
+  return `${operation}:${stableStringify(payload)}`;
+}
+
+/** An execution that has not finished yet */
+interface InFlightExecution {
+  fingerprint: string;
+  promise: Promise<ApiResponse<unknown>>;
+}
+
+/** Runs operations at most once per idempotency key */
+export class IdempotencyGuard {
+  private inFlight: Map<string, InFlightExecution> = new Map();
+
+  constructor(
+    private readonly store: IdempotencyStore = new InMemoryIdempotencyStore(),
+    private readonly ttlMs: number = DEFAULT_IDEMPOTENCY_TTL_MS
+  ) {}
+
+  /**
+   * Executes the operation, or replays the stored response when the context
+   * carries an idempotency key that was already used with the same payload.
+   * Requests without a key always run.
+   */
+  async execute<T>(
+    context: RequestContext,
+    operation: string,
+    payload: unknown,
+    run: () => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    if (!context.idempotencyKey) {
+      return run();
+    }
+
+    // Keys are scoped to the tenant and caller so two users cannot collide
+    const key = `${context.tenantId ?? DEFAULT_TENANT_ID}:${context.userId ?? 'anonymous'}:${context.idempotencyKey}`;
+    const fingerprint = fingerprintPayload(operation, payload);
+
+    // A concurrent request with the same key waits for the first one
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      if (pending.fingerprint !== fingerprint) {
+        return conflictResponse(context);
+      }
+      return (await pending.promise) as ApiResponse<T>;
+    }
+
+    const promise = this.executeOnce(key, fingerprint, context, run);
+    this.inFlight.set(key, { fingerprint, promise });
+    try {
+      return await promise;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /** Replays a stored response or runs the operation and stores its response */
+  private async executeOnce<T>(
+    key: string,
+    fingerprint: string,
+    context: RequestContext,
+    run: () => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const existing = await this.store.get(key);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return conflictResponse(context);
+      }
+      return existing.response as ApiResponse<T>;
+    }
+
+    const response = await run();
+    // Internal errors are not stored so the client can retry them
+    if (response.code !== 'INTERNAL') {
+      await this.store.set(key, { fingerprint, response }, this.ttlMs);
+    }
+    return response;
+  }
+}
+
+/** Response for a key reused with a different payload */
+function conflictResponse<T>(context: RequestContext): ApiResponse<T> {
+  return errorResponse(
+    new ConflictError('Idempotency key was already used with a different request'),
+    context
+  );
+}
@@ -3,3 +3,12 @@
  */
 
 export * from './handlers.js';
+export * from './validation.js';
+export * from './idempotency.js';
+export * from './router.js';
+export * from './jsonRpc.js';
+export * from './server.js';
+export * from './schemas.js';
+export * from './openapi.js';
+export * from './metrics.js';
+export * from './flags.js';
@@ -0,0 +1,528 @@
+/**
+ * JSON-RPC 2.0 transport for the API handlers.
+ *
+ * Test scenarios:
+ * - "Find References" on handleUpdateStock shows the RPC method that calls it
+ * - Rename JsonRpcDispatcher and see the server update
+ * - "Go to Definition" on RouteHandlers navigates to the router
+ */
+
+import { success } from '../core/utils.js';
+import type { ErrorCode, FieldError } from '../core/errors.js';
+import { ValidationError, httpStatusForCode, toAppError } from '../core/errors.js';
+import { parseSort } from '../core/listing.js';
+import type { BulkOptions } from '../core/bulk.js';
+import type { UserRole } from '../models/user.js';
+import type { Price, ProductCategory } from '../models/product.js';
+import type { UserListQuery, UserRegistration } from '../services/userService.js';
+import type {
+  ProductListQuery,
+  ProductInput,
+  StockUpdate,
+  PriceUpdate,
+} from '../services/productService.js';
+import type { ApiResponse, RequestContext } from './handlers.js';
+import { createResponse, tenantOf } from './handlers.js';
+import type { RouteHandlers } from './router.js';
+
+/** JSON-RPC request/response id */
+export type JsonRpcId = string | number | null;
+
+/** JSON-RPC 2.0 request object */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+  id?: JsonRpcId;
+}
+
+/** JSON-RPC 2.0 error object */
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/** JSON-RPC 2.0 response object */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  result?: unknown;
+  error?: JsonRpcError;
+  id: JsonRpcId;
+}
+
+/** Error codes defined by the JSON-RPC 2.0 specification */
+export enum JsonRpcErrorCode {
+  ParseError = -32700,
+  InvalidRequest = -32600,
+  MethodNotFound = -32601,
+  InvalidParams = -32602,
+  InternalError = -32603,
+  /** Implementation-defined server errors (-32000 to -32099) */
+  Unauthenticated = -32001,
+  Forbidden = -32003,
+  NotFound = -32004,
+  Conflict = -32009,
+  ApplicationError = -32000,
+}
+
+/** JSON-RPC error code for each application error code */
+const JSON_RPC_CODE_BY_ERROR: Record<ErrorCode, JsonRpcErrorCode> = {
+  BAD_REQUEST: JsonRpcErrorCode.InvalidParams,
+  VALIDATION_FAILED: JsonRpcErrorCode.InvalidParams,
+  UNAUTHENTICATED: JsonRpcErrorCode.Unauthenticated,
+  FORBIDDEN: JsonRpcErrorCode.Forbidden,
+  NOT_FOUND: JsonRpcErrorCode.NotFound,
+  METHOD_NOT_ALLOWED: JsonRpcErrorCode.ApplicationError,
+  CONFLICT: JsonRpcErrorCode.Conflict,
+  PAYLOAD_TOO_LARGE: JsonRpcErrorCode.InvalidRequest,
+  INTERNAL: JsonRpcErrorCode.InternalError,
+};
+
+/** Maps an application error code to a JSON-RPC error code */
+export function toJsonRpcErrorCode(code: ErrorCode): JsonRpcErrorCode {
+  return JSON_RPC_CODE_BY_ERROR[code];
+}
+
+/** Type of a declared method parameter */
+export type JsonRpcParamType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/** Declared method parameter */
+export interface JsonRpcParam {
+  name: string;
+  type: JsonRpcParamType;
+  optional?: boolean;
+}
+
+/** A method exposed over JSON-RPC */
+export interface JsonRpcMethod {
+  name: string;
+  params: JsonRpcParam[];
+  invoke(
+    params: Record<string, unknown>,
+    handlers: RouteHandlers,
+    context: RequestContext
+  ): Promise<ApiResponse<unknown>>;
+}
+
+/** Params shared by list methods */
+const listParams: JsonRpcParam[] = [
+  { name: 'page', type: 'number', optional: true },
+  { name: 'pageSize', type: 'number', optional: true },
+  { name: 'sort', type: 'string', optional: true },
+  { name: 'isActive', type: 'boolean', optional: true },
+];
+
+/** Converts list params into a list query (the sort spec is parsed) */
+function toListQuery(params: Record<string, unknown>): Record<string, unknown> {
+  const { sort, ...rest } = params;
+  return typeof sort === 'string' ? { ...rest, sort: parseSort(sort) } : rest;
+}
+
+/** Params shared by bulk methods */
+const bulkParams: JsonRpcParam[] = [
+  { name: 'items', type: 'array' },
+  { name: 'atomic', type: 'boolean', optional: true },
+];
+
+/** Reads bulk options from params */
+function toBulkOptions(params: Record<string, unknown>): BulkOptions {
+  return { atomic: params['atomic'] === true };
+}
+
+/** Copies an `idempotencyKey` param onto the request context */
+function withIdempotencyKey(context: RequestContext, params: Record<string, unknown>): RequestContext {
+  const key = params['idempotencyKey'];
+  return typeof key === 'string' ? { ...context, idempotencyKey: key } : context;
+}
+
+/** Default method table for the user and product APIs */
+export const jsonRpcMethods: JsonRpcMethod[] = [
+  {
+    name: 'users.register',
+    params: [
+      { name: 'email', type: 'string' },
+      { name: 'username', type: 'string' },
+      { name: 'displayName', type: 'string' },
+      { name: 'idempotencyKey', type: 'string', optional: true },
+    ],
+    invoke: (p, { users }, context) =>
+      users.handleRegister(
+        p['email'] as string,
+        p['username'] as string,
+        p['displayName'] as string,
+        withIdempotencyKey(context, p)
+      ),
+  },
+  {
+    name: 'flags.evaluate',
+    params: [],
+    invoke: (_p, { users }, context) => users.handleGetFeatureFlags(context),
+  },
+  {
+    name: 'users.get',
+    params: [{ name: 'id', type: 'string' }],
+    invoke: (p, { users }, context) => users.handleGetUser(p['id'] as string, context),
+  },
+  {
+    name: 'users.list',
+    params: [
+      ...listParams,
+      { name: 'role', type: 'string', optional: true },
+    ],
+    invoke: (p, { users }, context) => users.handleListUsers(context, toListQuery(p) as UserListQuery),
+  },
+  {
+    name: 'users.updateProfile',
+    params: [
+      { name: 'id', type: 'string' },
+      { name: 'displayName', type: 'string', optional: true },
+      { name: 'email', type: 'string', optional: true },
+    ],
+    invoke: (p, { users }, context) =>
+      users.handleUpdateProfile(
+        p['id'] as string,
+        {
+          ...(p['displayName'] !== undefined && { displayName: p['displayName'] as string }),
+          ...(p['email'] !== undefined && { email: p['email'] as string }),
+        },
+        context
+      ),
+  },
+  {
+    name: 'users.changeRole',
+    params: [
+      { name: 'targetUserId', type: 'string' },
+      { name: 'role', type: 'string' },
+    ],
+    invoke: (p, { users }, context) =>
+      users.handleChangeRole(p['targetUserId'] as string, p['role'] as UserRole, context),
+  },
+  {
+    name: 'users.deactivate',
+    params: [{ name: 'id', type: 'string' }],
+    invoke: (p, { users }, context) => users.handleDeactivateUser(p['id'] as string, context),
+  },
+  {
+    name: 'users.delete',
+    params: [{ name: 'id', type: 'string' }],
+    invoke: (p, { users }, context) => users.handleDeleteUser(p['id'] as string, context),
+  },
+  {
+    name: 'users.bulkRegister',
+    params: [...bulkParams, { name: 'idempotencyKey', type: 'string', optional: true }],
+    invoke: (p, { users }, context) =>
+      users.handleBulkRegister(
+        p['items'] as UserRegistration[],
+        toBulkOptions(p),
+        withIdempotencyKey(context, p)
+      ),
+  },
+  {
+    name: 'users.bulkDeactivate',
+    params: bulkParams,
+    invoke: (p, { users }, context) =>
+      users.handleBulkDeactivateUsers(p['items'] as string[], toBulkOptions(p), context),
+  },
+  {
+    name: 'products.create',
+    params: [
+      { name: 'name', type: 'string' },
+      { name: 'description', type: 'string' },
+      { name: 'sku', type: 'string' },
+      { name: 'price', type: 'object' },
+      { name: 'category', type: 'string' },
+      { name: 'idempotencyKey', type: 'string', optional: true },
+    ],
+    invoke: (p, { products }, context) =>
+      products.handleCreateProduct(
+        p['name'] as string,
+        p['description'] as string,
+        p['sku'] as string,
+        p['price'] as Price,
+        p['category'] as ProductCategory,
+        withIdempotencyKey(context, p)
+      ),
+  },
+  {
+    name: 'products.get',
+    params: [{ name: 'id', type: 'string' }],
+    invoke: (p, { products }, context) => products.handleGetProduct(p['id'] as string, context),
+  },
+  {
+    name: 'products.list',
+    params: [
+      ...listParams,
+      { name: 'category', type: 'string', optional: true },
+      { name: 'tags', type: 'array', optional: true },
+      { name: 'minPrice', type: 'number', optional: true },
+      { name: 'maxPrice', type: 'number', optional: true },
+    ],
+    invoke: (p, { products }, context) =>
+      products.handleListProducts(context, toListQuery(p) as ProductListQuery),
+  },
+  {
+    name: 'products.updateStock',
+    params: [
+      { name: 'id', type: 'string' },
+      { name: 'quantity', type: 'number' },
+    ],
+    invoke: (p, { products }, context) =>
+      products.handleUpdateStock(p['id'] as string, p['quantity'] as number, context),
+  },
+  {
+    name: 'products.updatePrice',
+    params: [
+      { name: 'id', type: 'string' },
+      { name: 'price', type: 'object' },
+    ],
+    invoke: (p, { products }, context) =>
+      products.handleUpdatePrice(p['id'] as string, p['price'] as Price, context),
+  },
+  {
+    name: 'products.delete',
+    params: [{ name: 'id', type: 'string' }],
+    invoke: (p, { products }, context) => products.handleDeleteProduct(p['id'] as string, context),
+  },
+  {
+    name: 'products.bulkCreate',
+    params: [...bulkParams, { name: 'idempotencyKey', type: 'string', optional: true }],
+    invoke: (p, { products }, context) =>
+      products.handleBulkCreateProducts(
+        p['items'] as ProductInput[],
+        toBulkOptions(p),
+        withIdempotencyKey(context, p)
+      ),
+  },
+  {
+    name: 'products.bulkUpdateStock',
+    params: bulkParams,
+    invoke: (p, { products }, context) =>
+      products.handleBulkUpdateStock(p['items'] as StockUpdate[], toBulkOptions(p), context),
+  },
+  {
+    name: 'products.bulkUpdatePrice',
+    params: bulkParams,
+    invoke: (p, { products }, context) =>
+      products.handleBulkUpdatePrice(p['items'] as PriceUpdate[], toBulkOptions(p), context),
+  },
+  {
+    name: 'products.bulkDeactivate',
+    params: bulkParams,
+    invoke: (p, { products }, context) =>
+      products.handleBulkDeactivateProducts(p['items'] as string[], toBulkOptions(p), context),
+  },
+  {
+    name: 'products.getInventoryValue',
+    params: [],
+    invoke: async (_p, { products }, context) =>
+      createResponse(success(await products.getInventoryValue(tenantOf(context))), context),
+  },
+  {
+    name: 'products.getByCategory',
+    params: [],
+    invoke: async (_p, { products }, context) =>
+      createResponse(success(await products.getProductsByCategory(tenantOf(context))), context),
+  },
+];
+
+/** Converts values that JSON.stringify mangles (Map, Set) into plain JSON */
+export function toJsonValue(value: unknown): unknown {
+  if (value instanceof Map) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of value) {
+      result[String(key)] = toJsonValue(entry);
+    }
+    return result;
+  }
+  if (value instanceof Set) {
+    return Array.from(value, toJsonValue);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) {
+        result[key] = toJsonValue(entry);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/** Creates an error response */
+function errorResponse(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    error: data === undefined ? { code, message } : { code, message, data },
+    id,
+  };
+}
+
+/** Builds an error response for an application error code, carrying the REST status in `data` */
+function appErrorResponse(
+  id: JsonRpcId,
+  code: ErrorCode,
+  message: string,
+  errors?: FieldError[]
+): JsonRpcResponse {
+  return errorResponse(id, toJsonRpcErrorCode(code), message, {
+    code,
+    httpStatus: httpStatusForCode(code),
+    ...(errors && { errors }),
+  });
+}
+
+/** Checks whether a value is a valid JSON-RPC id */
+function isValidId(id: unknown): id is JsonRpcId {
+  return id === null || typeof id === 'string' || typeof id === 'number';
+}
+
+/** Checks whether a value is a structurally valid request object */
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const request = value as Record<string, unknown>;
+  return (
+    request['jsonrpc'] === '2.0' &&
+    typeof request['method'] === 'string' &&
+    (request['params'] === undefined || typeof request['params'] === 'object') &&
+    request['params'] !== null &&
+    (!('id' in request) || isValidId(request['id']))
+  );
+}
+
+/** Maps positional or by-name params onto the method's declared params */
+function bindParams(
+  method: JsonRpcMethod,
+  params: JsonRpcRequest['params']
+): Record<string, unknown> | string {
+  let named: Record<string, unknown>;
+  if (params === undefined) {
+    named = {};
+  } else if (Array.isArray(params)) {
+    if (params.length > method.params.length) {
+      return `Expected at most ${method.params.length} params, got ${params.length}`;
+    }
+    named = {};
+    method.params.forEach((param, index) => {
+      named[param.name] = params[index];
+    });
+  } else {
+    named = params;
+  }
+
+  for (const param of method.params) {
+    const value = named[param.name];
+    if (value === undefined) {
+      if (!param.optional) {
+        return `Missing required param "${param.name}"`;
+      }
+      continue;
+    }
+    const actualType = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    if (actualType !== param.type) {
+      return `Param "${param.name}" must be of type ${param.type}`;
+    }
+  }
+  return named;
+}
+
+/** Dispatches JSON-RPC 2.0 requests to the API handlers */
+export class JsonRpcDispatcher {
+  private methods: Map<string, JsonRpcMethod>;
+
+  constructor(
+    private readonly handlers: RouteHandlers,
+    methods: JsonRpcMethod[] = jsonRpcMethods
+  ) {
+    this.methods = new Map(methods.map(method => [method.name, method]));
+  }
+
+  /** Handles a raw JSON payload, returning the serialized response (null for notifications) */
+  async handle(raw: string, createContext: () => RequestContext): Promise<string | null> {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      return JSON.stringify(errorResponse(null, JsonRpcErrorCode.ParseError, 'Parse error'));
+    }
+
+    const response = await this.dispatch(payload, createContext);
+    return response === null ? null : JSON.stringify(response);
+  }
+
+  /** Dispatches a parsed single or batch payload */
+  async dispatch(
+    payload: unknown,
+    createContext: () => RequestContext
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (!Array.isArray(payload)) {
+      return this.dispatchOne(payload, createContext);
+    }
+
+    if (payload.length === 0) {
+      return errorResponse(null, JsonRpcErrorCode.InvalidRequest, 'Invalid Request');
+    }
+
+    const responses = await Promise.all(payload.map(entry => this.dispatchOne(entry, createContext)));
+    const filtered = responses.filter((response): response is JsonRpcResponse => response !== null);
+    return filtered.length > 0 ? filtered : null;
+  }
+
+  /** Dispatches a single request object */
+  private async dispatchOne(
+    entry: unknown,
+    createContext: () => RequestContext
+  ): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcRequest(entry)) {
+      return errorResponse(null, JsonRpcErrorCode.InvalidRequest, 'Invalid Request');
+    }
+
+    const isNotification = !('id' in entry);
+    const id = entry.id ?? null;
+    const response = await this.invoke(entry, id, createContext);
+    return isNotification ? null : response;
+  }
+
+  /** Invokes the method for a validated request */
+  private async invoke(
+    request: JsonRpcRequest,
+    id: JsonRpcId,
+    createContext: () => RequestContext
+  ): Promise<JsonRpcResponse> {
+    const method = this.methods.get(request.method);
+    if (!method) {
+      return errorResponse(id, JsonRpcErrorCode.MethodNotFound, 'Method not found');
+    }
+
+    const params = bindParams(method, request.params);
+    if (typeof params === 'string') {
+      return errorResponse(id, JsonRpcErrorCode.InvalidParams, 'Invalid params', params);
+    }
+
+    try {
+      const result = await method.invoke(params, this.handlers, createContext());
+      if (result.status === 'error') {
+        const code = result.code ?? 'INTERNAL';
+        return appErrorResponse(id, code, result.message ?? 'Request failed', result.errors);
+      }
+      const data = result.pagination
+        ? { items: result.data, pagination: result.pagination }
+        : result.data ?? null;
+      return { jsonrpc: '2.0', result: toJsonValue(data), id };
+    } catch (error) {
+      // Thrown errors (e.g. an unknown tenant) map as they do over REST
+      const appError = toAppError(error);
+      const errors = appError instanceof ValidationError ? appError.errors : undefined;
+      return appErrorResponse(id, appError.code, appError.message, errors);
+    }
+  }
+}
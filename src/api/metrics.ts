@@ -0,0 +1,100 @@
+/**
+ * Metrics for the API - handler call counts and latency, plus domain gauges.
+ *
+ * Test scenarios:
+ * - "Find References" on instrumentHandler shows where handlers are wrapped
+ * - "Go to Definition" on secondsSince navigates to core/metrics.ts
+ * - Rename registerDomainGauges and see createApplication update
+ */
+
+import type { MetricsRegistry } from '../core/metrics.js';
+import { secondsSince } from '../core/metrics.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
+import { ProductCategory } from '../models/product.js';
+import type { ProductApiHandler } from './handlers.js';
+
+/** Path serving the Prometheus text exposition */
+export const METRICS_PATH = '/metrics';
+
+/** Outcome label for a handler result; error ApiResponses count as errors */
+function outcomeOf(result: unknown): string {
+  const failed = typeof result === 'object' && result !== null && 'status' in result && result.status === 'error';
+  return failed ? 'error' : 'success';
+}
+
+/**
+ * Wraps every method of a handler so each call is counted and timed.
+ * Records `api_handler_calls_total` and `api_handler_duration_seconds`
+ * labelled by handler, method and outcome.
+ */
+export function instrumentHandler<H extends object>(
+  handler: H,
+  handlerName: string,
+  registry: MetricsRegistry
+): H {
+  const calls = registry.counter('api_handler_calls_total', 'API handler calls by method and outcome');
+  const duration = registry.histogram('api_handler_duration_seconds', 'API handler latency in seconds');
+
+  return new Proxy(handler, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+
+      return (...args: unknown[]): unknown => {
+        const start = performance.now();
+        const record = (outcome: string): void => {
+          const labels = { handler: handlerName, method: property, outcome };
+          calls.inc(labels);
+          duration.observe(labels, secondsSince(start));
+        };
+
+        let result: unknown;
+        try {
+          result = value.apply(target, args);
+        } catch (error) {
+          record('error');
+          throw error;
+        }
+
+        if (result instanceof Promise) {
+          return result.then(
+            resolved => {
+              record(outcomeOf(resolved));
+              return resolved;
+            },
+            (error: unknown) => {
+              record('error');
+              throw error;
+            }
+          );
+        }
+        record(outcomeOf(result));
+        return result;
+      };
+    },
+  });
+}
+
+/** Registers per-tenant gauges for inventory value and product counts, refreshed on each scrape */
+export function registerDomainGauges(
+  registry: MetricsRegistry,
+  products: ProductApiHandler,
+  tenantIds: () => string[] = () => [DEFAULT_TENANT_ID]
+): void {
+  registry.gauge('inventory_value', 'Total value of stock on hand', async gauge => {
+    for (const tenant of tenantIds()) {
+      gauge.set({ tenant }, await products.getInventoryValue(tenant));
+    }
+  });
+
+  registry.gauge('products_by_category', 'Number of products per category', async gauge => {
+    for (const tenant of tenantIds()) {
+      const summaries = await products.getCategorySummary(tenant);
+      for (const category of Object.values(ProductCategory)) {
+        gauge.set({ tenant, category }, summaries.get(category)?.products ?? 0);
+      }
+    }
+  });
+}
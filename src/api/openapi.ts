@@ -0,0 +1,349 @@
+/**
+ * OpenAPI 3.1 document generation from the route table.
+ *
+ * Test scenarios:
+ * - "Find References" on routes shows the server and the generator
+ * - Rename generateOpenApiDocument and see the generate script update
+ * - "Go to Definition" on componentSchemas navigates to the schemas
+ */
+
+import { writeFile } from 'node:fs/promises';
+import type { ErrorCode } from '../core/errors.js';
+import { httpStatusForCode } from '../core/errors.js';
+import { DEFAULT_TENANT_ID, TENANT_ID_PATTERN } from '../core/tenancy.js';
+import { SUPPORTED_LOCALES } from '../core/i18n.js';
+import type { RouteDefinition } from './router.js';
+import { routes } from './router.js';
+import type { SchemaObject } from './schemas.js';
+import { componentSchemas, apiResponseOf, arrayOf, schemaRef } from './schemas.js';
+import {
+  USER_ID_HEADER,
+  IDEMPOTENCY_KEY_HEADER,
+  TENANT_ID_HEADER,
+  ACCEPT_LANGUAGE_HEADER,
+  JSON_RPC_PATH,
+} from './server.js';
+import { jsonRpcMethods } from './jsonRpc.js';
+import { METRICS_PATH } from './metrics.js';
+
+/** OpenAPI parameter object */
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  schema: SchemaObject;
+  description?: string;
+}
+
+/** OpenAPI response object */
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, { schema: SchemaObject }>;
+}
+
+/** OpenAPI operation object */
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: SchemaObject }>;
+  };
+  responses: Record<string, OpenApiResponse>;
+}
+
+/** OpenAPI 3.1 document */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+  };
+}
+
+/** Document info overrides */
+export interface OpenApiInfo {
+  title?: string;
+  version?: string;
+  description?: string;
+}
+
+/** Output format for the written document */
+export type OpenApiFormat = 'json' | 'yaml';
+
+/** Converts a route path (`/users/:id`) to an OpenAPI path (`/users/{id}`) */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, '{$1}');
+}
+
+/** Extracts path parameter names from a route path */
+function pathParameterNames(path: string): string[] {
+  return Array.from(path.matchAll(/:([A-Za-z_][A-Za-z0-9_]*)/g), match => match[1] ?? '');
+}
+
+/** JSON content helper */
+function jsonContent(schema: SchemaObject): Record<string, { schema: SchemaObject }> {
+  return { 'application/json': { schema } };
+}
+
+/**
+ * Errors of every tenant-scoped operation: a malformed tenant id (400) and a
+ * tenant the server does not serve (403)
+ */
+const TENANT_ERROR_CODES: ErrorCode[] = ['BAD_REQUEST', 'FORBIDDEN'];
+
+/** Header parameters of every tenant-scoped operation */
+function sharedHeaderParameters(): OpenApiParameter[] {
+  return [
+    {
+      name: TENANT_ID_HEADER,
+      in: 'header',
+      required: false,
+      schema: { type: 'string', pattern: TENANT_ID_PATTERN.source },
+      description: `Tenant the request acts on (defaults to "${DEFAULT_TENANT_ID}")`,
+    },
+    {
+      name: ACCEPT_LANGUAGE_HEADER,
+      in: 'header',
+      required: false,
+      schema: { type: 'string' },
+      description: `Language of validation messages; supported: ${SUPPORTED_LOCALES.join(', ')}`,
+    },
+  ];
+}
+
+/** The header naming the calling user */
+function userIdParameter(required: boolean): OpenApiParameter {
+  return {
+    name: USER_ID_HEADER,
+    in: 'header',
+    required,
+    schema: { type: 'string' },
+    description: 'Id of the calling user',
+  };
+}
+
+/** Error responses for error codes; codes sharing an HTTP status share a response */
+function errorResponses(codes: ErrorCode[]): Record<string, OpenApiResponse> {
+  const responses: Record<string, OpenApiResponse> = {};
+  for (const code of new Set(codes)) {
+    const status = String(httpStatusForCode(code));
+    const existing = responses[status];
+    responses[status] = {
+      description: existing ? `${existing.description}, ${code}` : code,
+      content: jsonContent(schemaRef('ErrorResponse')),
+    };
+  }
+  return responses;
+}
+
+/** Builds the operation object for a route */
+function toOperation(route: RouteDefinition): OpenApiOperation {
+  const parameters: OpenApiParameter[] = pathParameterNames(route.path).map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+
+  for (const query of route.queryParameters ?? []) {
+    parameters.push({
+      name: query.name,
+      in: 'query',
+      required: false,
+      schema: query.schema,
+      ...(query.description && { description: query.description }),
+    });
+  }
+
+  parameters.push(...sharedHeaderParameters());
+
+  if (route.authenticated) {
+    parameters.push(userIdParameter(true));
+  }
+
+  if (route.idempotent) {
+    parameters.push({
+      name: IDEMPOTENCY_KEY_HEADER,
+      in: 'header',
+      required: false,
+      schema: { type: 'string' },
+      description: 'Retries with the same key and body replay the original response',
+    });
+  }
+
+  const responses: Record<string, OpenApiResponse> = {
+    [String(route.successStatus ?? 200)]: {
+      description: 'Success',
+      content: jsonContent(apiResponseOf(route.response, route.paginated)),
+    },
+    ...errorResponses([
+      'VALIDATION_FAILED',
+      ...TENANT_ERROR_CODES,
+      ...(route.errorCodes ?? []),
+      ...(route.requestBody ? (['PAYLOAD_TOO_LARGE'] as const) : []),
+      'INTERNAL',
+    ]),
+  };
+
+  const operation: OpenApiOperation = {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: route.tags,
+    responses,
+  };
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+  if (route.requestBody) {
+    operation.requestBody = {
+      required: true,
+      content: jsonContent(route.requestBody),
+    };
+  }
+  return operation;
+}
+
+/**
+ * The JSON-RPC endpoint. Failed calls, an unknown tenant included, are
+ * JSON-RPC errors in a 200 response; only a malformed request fails the
+ * HTTP request itself.
+ */
+function jsonRpcOperation(): OpenApiOperation {
+  const request = schemaRef('JsonRpcRequest');
+  const response = schemaRef('JsonRpcResponse');
+  return {
+    operationId: 'jsonRpc',
+    summary: 'Calls API methods over JSON-RPC 2.0, one at a time or in a batch',
+    description: `Methods: ${jsonRpcMethods.map(method => method.name).join(', ')}`,
+    tags: ['rpc'],
+    parameters: [...sharedHeaderParameters(), userIdParameter(false)],
+    requestBody: {
+      required: true,
+      content: jsonContent({ oneOf: [request, arrayOf(request)] }),
+    },
+    responses: {
+      '200': {
+        description: 'Responses to the calls that were not notifications',
+        content: jsonContent({ oneOf: [response, arrayOf(response)] }),
+      },
+      '204': { description: 'Every call was a notification' },
+      ...errorResponses(['BAD_REQUEST', 'PAYLOAD_TOO_LARGE', 'INTERNAL']),
+    },
+  };
+}
+
+/** The metrics endpoint, served when the server is given a metrics registry */
+function metricsOperation(): OpenApiOperation {
+  return {
+    operationId: 'getMetrics',
+    summary: 'Exposes metrics in the Prometheus text format',
+    tags: ['metrics'],
+    responses: {
+      '200': {
+        description: 'Current metric values',
+        content: { 'text/plain': { schema: { type: 'string' } } },
+      },
+    },
+  };
+}
+
+/** Generates an OpenAPI 3.1 document describing the route table */
+export function generateOpenApiDocument(
+  routeTable: RouteDefinition[] = routes,
+  info: OpenApiInfo = {}
+): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  for (const route of routeTable) {
+    const path = toOpenApiPath(route.path);
+    const pathItem = paths[path] ?? {};
+    pathItem[route.method.toLowerCase()] = toOperation(route);
+    paths[path] = pathItem;
+  }
+  paths[JSON_RPC_PATH] = { post: jsonRpcOperation() };
+  paths[METRICS_PATH] = { get: metricsOperation() };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: info.title ?? 'TypeScript Demo API',
+      version: info.version ?? '1.0.0',
+      ...(info.description && { description: info.description }),
+    },
+    paths,
+    components: {
+      schemas: componentSchemas,
+    },
+  };
+}
+
+/** Formats a mapping key, quoting it when it is not a plain scalar */
+function yamlKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** Formats a scalar value */
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+/** Serializes a JSON-compatible value as YAML */
+export function toYaml(value: unknown, indent: number = 0): string {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]\n`;
+    return value
+      .map(entry => {
+        if (typeof entry === 'object' && entry !== null && Object.keys(entry).length > 0) {
+          const nested = toYaml(entry, indent + 2);
+          return `${pad}- ${nested.slice(indent + 2)}`;
+        }
+        return `${pad}- ${toYaml(entry, 0).trimEnd()}\n`;
+      })
+      .join('');
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    if (entries.length === 0) return `${pad}{}\n`;
+    return entries
+      .map(([key, entry]) => {
+        const isCollection =
+          typeof entry === 'object' && entry !== null && Object.keys(entry).length > 0;
+        if (isCollection) {
+          return `${pad}${yamlKey(key)}:\n${toYaml(entry, indent + 2)}`;
+        }
+        return `${pad}${yamlKey(key)}: ${toYaml(entry, 0).trimEnd()}\n`;
+      })
+      .join('');
+  }
+
+  return `${pad}${yamlScalar(value)}\n`;
+}
+
+/** Serializes a document in the given format */
+export function serializeOpenApiDocument(document: OpenApiDocument, format: OpenApiFormat): string {
+  return format === 'yaml' ? toYaml(document) : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/** Writes the OpenAPI document to disk (format inferred from the extension by default) */
+export async function writeOpenApiDocument(
+  filePath: string,
+  format: OpenApiFormat = /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json',
+  routeTable: RouteDefinition[] = routes
+): Promise<void> {
+  const document = generateOpenApiDocument(routeTable);
+  await writeFile(filePath, serializeOpenApiDocument(document, format), 'utf8');
+}
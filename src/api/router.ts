@@ -0,0 +1,529 @@
+/**
+ * HTTP route table - maps REST endpoints onto the API handlers.
+ *
+ * Test scenarios:
+ * - "Find References" on handleRegister shows the route that calls it
+ * - Rename RouteDefinition and see the server update
+ * - Add a route and follow it down to the service layer
+ */
+
+import { success } from '../core/utils.js';
+import type { ErrorCode } from '../core/errors.js';
+import { parseSort } from '../core/listing.js';
+import type { BulkOptions } from '../core/bulk.js';
+import type { UserRole } from '../models/user.js';
+import type { Price, ProductCategory } from '../models/product.js';
+import type { UserListQuery, UserRegistration } from '../services/userService.js';
+import type {
+  ProductListQuery,
+  ProductInput,
+  StockUpdate,
+  PriceUpdate,
+} from '../services/productService.js';
+import type { ApiResponse, RequestContext, UserApiHandler, ProductApiHandler } from './handlers.js';
+import { createResponse, tenantOf } from './handlers.js';
+import type { SchemaObject } from './schemas.js';
+import {
+  schemaRef,
+  arrayOf,
+  userRoleSchema,
+  productCategorySchema,
+  bulkRequestOf,
+  bulkResultOf,
+} from './schemas.js';
+
+/** HTTP methods supported by the router */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** Handlers a route can dispatch to */
+export interface RouteHandlers {
+  users: UserApiHandler;
+  products: ProductApiHandler;
+}
+
+/** Parsed request passed to a route */
+export interface RouteRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  context: RequestContext;
+}
+
+/** A documented query string parameter */
+export interface QueryParameter {
+  name: string;
+  schema: SchemaObject;
+  description?: string;
+}
+
+/** A single entry in the route table */
+export interface RouteDefinition {
+  method: HttpMethod;
+  /** Path pattern, e.g. `/users/:id` */
+  path: string;
+  operationId: string;
+  summary: string;
+  tags: string[];
+  /** Schema of the JSON request body, if the route accepts one */
+  requestBody?: SchemaObject;
+  /** Query string parameters the route accepts */
+  queryParameters?: QueryParameter[];
+  /** Schema of the `data` field of a successful response */
+  response: SchemaObject;
+  /** Whether the response carries page metadata */
+  paginated?: boolean;
+  /** Whether the route requires the caller's user id header */
+  authenticated?: boolean;
+  /** Whether the route honours the Idempotency-Key header */
+  idempotent?: boolean;
+  /** HTTP status for a successful response (defaults to 200) */
+  successStatus?: number;
+  /** Error codes the route can return besides VALIDATION_FAILED and INTERNAL (documentation only) */
+  errorCodes?: ErrorCode[];
+  handle(request: RouteRequest, handlers: RouteHandlers): Promise<ApiResponse<unknown>>;
+}
+
+/** Result of matching a request against the route table */
+export interface RouteMatch {
+  route: RouteDefinition;
+  params: Record<string, string>;
+}
+
+/** Query parameters parsed as numbers */
+const NUMERIC_QUERY_PARAMS = new Set(['page', 'pageSize', 'minPrice', 'maxPrice']);
+
+/** Query parameters parsed as booleans */
+const BOOLEAN_QUERY_PARAMS = new Set(['isActive']);
+
+/**
+ * Converts a query string into a raw list query.
+ * Values that cannot be converted are passed through so validation can reject them.
+ */
+export function parseListQuery(query: URLSearchParams): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of query) {
+    if (name === 'sort') {
+      result['sort'] = parseSort(value);
+    } else if (name === 'tag') {
+      result['tags'] = query.getAll('tag');
+    } else if (NUMERIC_QUERY_PARAMS.has(name)) {
+      result[name] = value.trim().length > 0 ? Number(value) : value;
+    } else if (BOOLEAN_QUERY_PARAMS.has(name)) {
+      result[name] = value === 'true' ? true : value === 'false' ? false : value;
+    } else {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/** Query parameters shared by list routes */
+const listQueryParameters: QueryParameter[] = [
+  { name: 'page', schema: { type: 'integer', minimum: 1 }, description: 'Page number (1-based)' },
+  { name: 'pageSize', schema: { type: 'integer', minimum: 1 }, description: 'Items per page' },
+  {
+    name: 'sort',
+    schema: { type: 'string' },
+    description: 'Comma-separated sort fields; prefix with "-" for descending',
+  },
+  { name: 'isActive', schema: { type: 'boolean' } },
+];
+
+/** Reads bulk options from a request body */
+function bulkOptions(body: Record<string, unknown>): BulkOptions {
+  return { atomic: body['atomic'] === true };
+}
+
+/** Registration body schema, shared by the single and bulk routes */
+const userRegistrationSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', format: 'email' },
+    username: { type: 'string' },
+    displayName: { type: 'string' },
+  },
+  required: ['email', 'username', 'displayName'],
+};
+
+/** Product creation body schema, shared by the single and bulk routes */
+const productInputSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    sku: { type: 'string' },
+    price: schemaRef('Price'),
+    category: schemaRef('ProductCategory'),
+  },
+  required: ['name', 'description', 'sku', 'price', 'category'],
+};
+
+/** Default route table for the user and product APIs */
+export const routes: RouteDefinition[] = [
+  {
+    method: 'POST',
+    path: '/users',
+    operationId: 'registerUser',
+    summary: 'Register a new user',
+    tags: ['users'],
+    requestBody: userRegistrationSchema,
+    response: schemaRef('User'),
+    idempotent: true,
+    errorCodes: ['CONFLICT'],
+    successStatus: 201,
+    handle: ({ body, context }, { users }) =>
+      users.handleRegister(
+        body['email'] as string,
+        body['username'] as string,
+        body['displayName'] as string,
+        context
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/users',
+    operationId: 'listUsers',
+    summary: 'List users',
+    tags: ['users'],
+    queryParameters: [...listQueryParameters, { name: 'role', schema: userRoleSchema }],
+    response: arrayOf(schemaRef('User')),
+    paginated: true,
+    handle: ({ query, context }, { users }) =>
+      users.handleListUsers(context, parseListQuery(query) as UserListQuery),
+  },
+  {
+    method: 'GET',
+    path: '/flags',
+    operationId: 'getFeatureFlags',
+    summary: 'Feature flag values for the caller',
+    tags: ['flags'],
+    response: {
+      type: 'object',
+      additionalProperties: { oneOf: [{ type: 'boolean' }, { type: 'string' }, { type: 'number' }] },
+    },
+    handle: ({ context }, { users }) => users.handleGetFeatureFlags(context),
+  },
+  {
+    method: 'GET',
+    path: '/users/:id',
+    operationId: 'getUser',
+    summary: 'Get a user by id',
+    tags: ['users'],
+    response: schemaRef('User'),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, context }, { users }) => users.handleGetUser(params['id'] ?? '', context),
+  },
+  {
+    method: 'PATCH',
+    path: '/users/:id',
+    operationId: 'updateUserProfile',
+    summary: 'Update the profile of a user',
+    tags: ['users'],
+    requestBody: {
+      type: 'object',
+      properties: {
+        displayName: { type: 'string' },
+        email: { type: 'string', format: 'email' },
+      },
+    },
+    response: schemaRef('User'),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, body, context }, { users }) =>
+      users.handleUpdateProfile(
+        params['id'] ?? '',
+        {
+          ...(body['displayName'] !== undefined && { displayName: body['displayName'] as string }),
+          ...(body['email'] !== undefined && { email: body['email'] as string }),
+        },
+        context
+      ),
+  },
+  {
+    method: 'PUT',
+    path: '/users/:id/role',
+    operationId: 'changeUserRole',
+    summary: 'Change the role of a user (admin only)',
+    tags: ['users'],
+    requestBody: {
+      type: 'object',
+      properties: { role: schemaRef('UserRole') },
+      required: ['role'],
+    },
+    response: schemaRef('User'),
+    authenticated: true,
+    errorCodes: ['UNAUTHENTICATED', 'FORBIDDEN', 'NOT_FOUND'],
+    handle: ({ params, body, context }, { users }) =>
+      users.handleChangeRole(params['id'] ?? '', body['role'] as UserRole, context),
+  },
+  {
+    method: 'POST',
+    path: '/users/:id/deactivate',
+    operationId: 'deactivateUser',
+    summary: 'Deactivate a user',
+    tags: ['users'],
+    response: schemaRef('User'),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, context }, { users }) =>
+      users.handleDeactivateUser(params['id'] ?? '', context),
+  },
+  {
+    method: 'DELETE',
+    path: '/users/:id',
+    operationId: 'deleteUser',
+    summary: 'Delete a user',
+    tags: ['users'],
+    response: { type: 'null' },
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, context }, { users }) => users.handleDeleteUser(params['id'] ?? '', context),
+  },
+  {
+    method: 'POST',
+    path: '/users/bulk',
+    operationId: 'bulkRegisterUsers',
+    summary: 'Register several users',
+    tags: ['users'],
+    requestBody: bulkRequestOf(userRegistrationSchema),
+    response: bulkResultOf(schemaRef('User')),
+    idempotent: true,
+    errorCodes: ['CONFLICT'],
+    handle: ({ body, context }, { users }) =>
+      users.handleBulkRegister(body['items'] as UserRegistration[], bulkOptions(body), context),
+  },
+  {
+    method: 'POST',
+    path: '/users/bulk/deactivate',
+    operationId: 'bulkDeactivateUsers',
+    summary: 'Deactivate several users',
+    tags: ['users'],
+    requestBody: bulkRequestOf({ type: 'string' }),
+    response: bulkResultOf(schemaRef('User')),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ body, context }, { users }) =>
+      users.handleBulkDeactivateUsers(body['items'] as string[], bulkOptions(body), context),
+  },
+  {
+    method: 'POST',
+    path: '/products',
+    operationId: 'createProduct',
+    summary: 'Create a product',
+    tags: ['products'],
+    requestBody: productInputSchema,
+    response: schemaRef('Product'),
+    idempotent: true,
+    errorCodes: ['CONFLICT'],
+    successStatus: 201,
+    handle: ({ body, context }, { products }) =>
+      products.handleCreateProduct(
+        body['name'] as string,
+        body['description'] as string,
+        body['sku'] as string,
+        body['price'] as Price,
+        body['category'] as ProductCategory,
+        context
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/products',
+    operationId: 'listProducts',
+    summary: 'List products',
+    tags: ['products'],
+    queryParameters: [
+      ...listQueryParameters,
+      { name: 'category', schema: productCategorySchema },
+      { name: 'tag', schema: { type: 'string' }, description: 'Repeatable; matches any of the given tags' },
+      { name: 'minPrice', schema: { type: 'number', minimum: 0 } },
+      { name: 'maxPrice', schema: { type: 'number', minimum: 0 } },
+    ],
+    response: arrayOf(schemaRef('Product')),
+    paginated: true,
+    handle: ({ query, context }, { products }) =>
+      products.handleListProducts(context, parseListQuery(query) as ProductListQuery),
+  },
+  {
+    method: 'GET',
+    path: '/products/:id',
+    operationId: 'getProduct',
+    summary: 'Get a product by id',
+    tags: ['products'],
+    response: schemaRef('Product'),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, context }, { products }) =>
+      products.handleGetProduct(params['id'] ?? '', context),
+  },
+  {
+    method: 'PATCH',
+    path: '/products/:id/stock',
+    operationId: 'updateProductStock',
+    summary: 'Set the stock quantity of a product',
+    tags: ['products'],
+    requestBody: {
+      type: 'object',
+      properties: { quantity: { type: 'integer', minimum: 0 } },
+      required: ['quantity'],
+    },
+    response: schemaRef('Product'),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, body, context }, { products }) =>
+      products.handleUpdateStock(params['id'] ?? '', body['quantity'] as number, context),
+  },
+  {
+    method: 'PATCH',
+    path: '/products/:id/price',
+    operationId: 'updateProductPrice',
+    summary: 'Set the price of a product',
+    tags: ['products'],
+    requestBody: {
+      type: 'object',
+      properties: { price: schemaRef('Price') },
+      required: ['price'],
+    },
+    response: schemaRef('Product'),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, body, context }, { products }) =>
+      products.handleUpdatePrice(params['id'] ?? '', body['price'] as Price, context),
+  },
+  {
+    method: 'DELETE',
+    path: '/products/:id',
+    operationId: 'deleteProduct',
+    summary: 'Delete a product',
+    tags: ['products'],
+    response: { type: 'null' },
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ params, context }, { products }) =>
+      products.handleDeleteProduct(params['id'] ?? '', context),
+  },
+  {
+    method: 'POST',
+    path: '/products/bulk',
+    operationId: 'bulkCreateProducts',
+    summary: 'Create several products',
+    tags: ['products'],
+    requestBody: bulkRequestOf(productInputSchema),
+    response: bulkResultOf(schemaRef('Product')),
+    idempotent: true,
+    errorCodes: ['CONFLICT'],
+    handle: ({ body, context }, { products }) =>
+      products.handleBulkCreateProducts(body['items'] as ProductInput[], bulkOptions(body), context),
+  },
+  {
+    method: 'PATCH',
+    path: '/products/bulk/stock',
+    operationId: 'bulkUpdateProductStock',
+    summary: 'Set the stock quantity of several products',
+    tags: ['products'],
+    requestBody: bulkRequestOf({
+      type: 'object',
+      properties: { id: { type: 'string' }, quantity: { type: 'integer', minimum: 0 } },
+      required: ['id', 'quantity'],
+    }),
+    response: bulkResultOf(schemaRef('Product')),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ body, context }, { products }) =>
+      products.handleBulkUpdateStock(body['items'] as StockUpdate[], bulkOptions(body), context),
+  },
+  {
+    method: 'PATCH',
+    path: '/products/bulk/price',
+    operationId: 'bulkUpdateProductPrice',
+    summary: 'Set the price of several products',
+    tags: ['products'],
+    requestBody: bulkRequestOf({
+      type: 'object',
+      properties: { id: { type: 'string' }, price: schemaRef('Price') },
+      required: ['id', 'price'],
+    }),
+    response: bulkResultOf(schemaRef('Product')),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ body, context }, { products }) =>
+      products.handleBulkUpdatePrice(body['items'] as PriceUpdate[], bulkOptions(body), context),
+  },
+  {
+    method: 'POST',
+    path: '/products/bulk/deactivate',
+    operationId: 'bulkDeactivateProducts',
+    summary: 'Deactivate several products',
+    tags: ['products'],
+    requestBody: bulkRequestOf({ type: 'string' }),
+    response: bulkResultOf(schemaRef('Product')),
+    errorCodes: ['NOT_FOUND'],
+    handle: ({ body, context }, { products }) =>
+      products.handleBulkDeactivateProducts(body['items'] as string[], bulkOptions(body), context),
+  },
+  {
+    method: 'GET',
+    path: '/inventory/value',
+    operationId: 'getInventoryValue',
+    summary: 'Get the total inventory value',
+    tags: ['inventory'],
+    response: { type: 'number' },
+    handle: async ({ context }, { products }) =>
+      createResponse(success(await products.getInventoryValue(tenantOf(context))), context),
+  },
+  {
+    method: 'GET',
+    path: '/inventory/by-category',
+    operationId: 'getProductsByCategory',
+    summary: 'Get products grouped by category',
+    tags: ['inventory'],
+    response: {
+      type: 'object',
+      additionalProperties: arrayOf(schemaRef('Product')),
+    },
+    handle: async ({ context }, { products }) =>
+      createResponse(
+        success(Object.fromEntries(await products.getProductsByCategory(tenantOf(context)))),
+        context
+      ),
+  },
+];
+
+/** Matches a path against a route pattern, returning the extracted params */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = pathname.split('/').filter(Boolean);
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i] ?? '';
+    const actual = pathSegments[i] ?? '';
+    if (expected.startsWith(':')) {
+      params[expected.slice(1)] = decodeURIComponent(actual);
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Finds the route for a request.
+ * Literal segments win over parameters, so `/users/bulk/deactivate` is not
+ * matched by `/users/:id/deactivate`; otherwise table order decides.
+ */
+export function matchRoute(
+  routeTable: RouteDefinition[],
+  method: string,
+  pathname: string
+): RouteMatch | null {
+  let best: RouteMatch | null = null;
+  for (const route of routeTable) {
+    if (route.method !== method) continue;
+    const params = matchPath(route.path, pathname);
+    if (params && (!best || Object.keys(params).length < Object.keys(best.params).length)) {
+      best = { route, params };
+    }
+  }
+  return best;
+}
+
+/** Lists the methods allowed for a path (used for 405 responses) */
+export function allowedMethods(routeTable: RouteDefinition[], pathname: string): HttpMethod[] {
+  return routeTable
+    .filter(route => matchPath(route.path, pathname) !== null)
+    .map(route => route.method);
+}
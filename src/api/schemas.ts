@@ -0,0 +1,262 @@
+/**
+ * JSON Schema definitions for the API surface.
+ * Used by the route table to describe request and response bodies.
+ *
+ * Test scenarios:
+ * - "Find References" on productSchema shows the routes that return products
+ * - Rename SchemaObject and see the router and OpenAPI generator update
+ * - Add a field to Product and update its schema here
+ */
+
+import { UserRole } from '../models/user.js';
+import { ProductCategory } from '../models/product.js';
+
+/** JSON Schema object (the subset used by this API) */
+export interface SchemaObject {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  format?: string;
+  description?: string;
+  enum?: readonly (string | number)[];
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  items?: SchemaObject;
+  additionalProperties?: boolean | SchemaObject;
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+  oneOf?: SchemaObject[];
+}
+
+/** Creates a reference to a component schema */
+export function schemaRef(name: string): SchemaObject {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/** Creates an array schema */
+export function arrayOf(items: SchemaObject): SchemaObject {
+  return { type: 'array', items };
+}
+
+/** Base entity fields */
+const entityProperties: Record<string, SchemaObject> = {
+  id: { type: 'string' },
+  tenantId: { type: 'string' },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+  isActive: { type: 'boolean' },
+};
+
+/** User role enum schema */
+export const userRoleSchema: SchemaObject = {
+  type: 'string',
+  enum: Object.values(UserRole),
+};
+
+/** Product category enum schema */
+export const productCategorySchema: SchemaObject = {
+  type: 'string',
+  enum: Object.values(ProductCategory),
+};
+
+/** Price schema */
+export const priceSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    amount: { type: 'number', minimum: 0 },
+    currency: { type: 'string', minLength: 3 },
+  },
+  required: ['amount', 'currency'],
+};
+
+/** User entity schema */
+export const userSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    ...entityProperties,
+    email: { type: 'string', format: 'email' },
+    username: { type: 'string' },
+    displayName: { type: 'string' },
+    role: schemaRef('UserRole'),
+    lastLoginAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'tenantId', 'createdAt', 'updatedAt', 'isActive', 'email', 'username', 'displayName', 'role'],
+};
+
+/** Product entity schema */
+export const productSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    ...entityProperties,
+    name: { type: 'string' },
+    description: { type: 'string' },
+    sku: { type: 'string' },
+    price: schemaRef('Price'),
+    category: schemaRef('ProductCategory'),
+    stockQuantity: { type: 'integer', minimum: 0 },
+    tags: arrayOf({ type: 'string' }),
+  },
+  required: [
+    'id', 'tenantId', 'createdAt', 'updatedAt', 'isActive',
+    'name', 'description', 'sku', 'price', 'category', 'stockQuantity', 'tags',
+  ],
+};
+
+/** Field-level validation error schema */
+export const fieldErrorSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    field: { type: 'string' },
+    code: { type: 'string' },
+    message: { type: 'string' },
+  },
+  required: ['field', 'code', 'message'],
+};
+
+/** Page metadata schema */
+export const pageMetaSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer' },
+    pageSize: { type: 'integer' },
+    total: { type: 'integer' },
+    totalPages: { type: 'integer' },
+    hasNextPage: { type: 'boolean' },
+    hasPreviousPage: { type: 'boolean' },
+  },
+  required: ['page', 'pageSize', 'total', 'totalPages', 'hasNextPage', 'hasPreviousPage'],
+};
+
+/** Error response schema (ApiResponse with status "error") */
+export const errorResponseSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['error'] },
+    message: { type: 'string' },
+    code: {
+      type: 'string',
+      enum: [
+        'BAD_REQUEST', 'VALIDATION_FAILED', 'UNAUTHENTICATED', 'FORBIDDEN',
+        'NOT_FOUND', 'METHOD_NOT_ALLOWED', 'CONFLICT', 'PAYLOAD_TOO_LARGE', 'INTERNAL',
+      ],
+    },
+    errors: arrayOf(schemaRef('FieldError')),
+    data: { description: 'Details of the failure, e.g. the report of a rolled-back bulk request' },
+    requestedAt: { type: 'string', format: 'date' },
+  },
+  required: ['status', 'requestedAt'],
+};
+
+/** Bulk operation report schema for the given item schema */
+export function bulkResultOf(item: SchemaObject): SchemaObject {
+  return {
+    type: 'object',
+    properties: {
+      atomic: { type: 'boolean' },
+      committed: { type: 'boolean' },
+      succeeded: { type: 'integer' },
+      failed: { type: 'integer' },
+      results: arrayOf({
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          status: { type: 'string', enum: ['succeeded', 'failed', 'rolledBack', 'skipped'] },
+          data: item,
+          code: { type: 'string' },
+          message: { type: 'string' },
+          errors: arrayOf(schemaRef('FieldError')),
+        },
+        required: ['index', 'status'],
+      }),
+    },
+    required: ['atomic', 'committed', 'succeeded', 'failed', 'results'],
+  };
+}
+
+/** Request body schema for bulk routes */
+export function bulkRequestOf(item: SchemaObject): SchemaObject {
+  return {
+    type: 'object',
+    properties: {
+      items: arrayOf(item),
+      atomic: { type: 'boolean', description: 'Apply all items or none' },
+    },
+    required: ['items'],
+  };
+}
+
+/** JSON-RPC request id */
+const jsonRpcIdSchema: SchemaObject = {
+  oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }],
+};
+
+/** JSON-RPC 2.0 request schema */
+export const jsonRpcRequestSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    jsonrpc: { type: 'string', enum: ['2.0'] },
+    method: { type: 'string' },
+    params: { description: 'Parameters by name (an object) or by position (an array)' },
+    id: { ...jsonRpcIdSchema, description: 'Omitted for a notification, which gets no response' },
+  },
+  required: ['jsonrpc', 'method'],
+};
+
+/** JSON-RPC 2.0 error schema; `data` carries the error code and HTTP status REST would use */
+export const jsonRpcErrorSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    code: { type: 'integer' },
+    message: { type: 'string' },
+    data: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        httpStatus: { type: 'integer' },
+        errors: arrayOf(schemaRef('FieldError')),
+      },
+    },
+  },
+  required: ['code', 'message'],
+};
+
+/** JSON-RPC 2.0 response schema: a result or an error */
+export const jsonRpcResponseSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    jsonrpc: { type: 'string', enum: ['2.0'] },
+    result: { description: 'What the method returned' },
+    error: schemaRef('JsonRpcError'),
+    id: jsonRpcIdSchema,
+  },
+  required: ['jsonrpc', 'id'],
+};
+
+/** Component schemas, keyed by name */
+export const componentSchemas: Record<string, SchemaObject> = {
+  UserRole: userRoleSchema,
+  ProductCategory: productCategorySchema,
+  Price: priceSchema,
+  User: userSchema,
+  Product: productSchema,
+  FieldError: fieldErrorSchema,
+  PageMeta: pageMetaSchema,
+  ErrorResponse: errorResponseSchema,
+  JsonRpcRequest: jsonRpcRequestSchema,
+  JsonRpcError: jsonRpcErrorSchema,
+  JsonRpcResponse: jsonRpcResponseSchema,
+};
+
+/** Wraps a data schema in the ApiResponse envelope */
+export function apiResponseOf(data: SchemaObject, paginated: boolean = false): SchemaObject {
+  return {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['success'] },
+      data,
+      ...(paginated && { pagination: schemaRef('PageMeta') }),
+      requestedAt: { type: 'string', format: 'date' },
+    },
+    required: ['status', 'requestedAt'],
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * HTTP server - exposes the API handlers over REST and JSON-RPC using node:http.
+ *
+ * Test scenarios:
+ * - "Find References" on createApiServer
+ * - "Go to Definition" on routes navigates to the route table
+ * - Rename toHttpStatus and see the server update
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { formatDate, generateId } from '../core/utils.js';
+import type { AppError } from '../core/errors.js';
+import {
+  BadRequestError,
+  MethodNotAllowedError,
+  NotFoundError,
+  PayloadTooLargeError,
+  HttpStatus,
+  httpStatusForCode,
+  toAppError,
+} from '../core/errors.js';
+import type { MetricsRegistry } from '../core/metrics.js';
+import { PROMETHEUS_CONTENT_TYPE } from '../core/metrics.js';
+import { DEFAULT_TENANT_ID, isValidTenantId } from '../core/tenancy.js';
+import { getClock } from '../core/clock.js';
+import type { SupportedLocale } from '../core/i18n.js';
+import { negotiateLocale } from '../core/i18n.js';
+import type { ApiResponse, RequestContext } from './handlers.js';
+import type { RouteDefinition, RouteHandlers } from './router.js';
+import { routes, matchRoute, allowedMethods } from './router.js';
+import { JsonRpcDispatcher } from './jsonRpc.js';
+import { METRICS_PATH } from './metrics.js';
+
+/** Header carrying the id of the calling user */
+export const USER_ID_HEADER = 'x-user-id';
+
+/** Header carrying the client's idempotency key */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/** Header naming the tenant a request acts on */
+export const TENANT_ID_HEADER = 'x-tenant-id';
+
+/** Header carrying the correlation id of a request (echoed on the response) */
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+/** Header listing the client's preferred languages */
+export const ACCEPT_LANGUAGE_HEADER = 'accept-language';
+
+/** Header naming the language of the response */
+export const CONTENT_LANGUAGE_HEADER = 'content-language';
+
+/** Largest request body read, in bytes (1 MB); larger ones are rejected with 413 */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Path accepting JSON-RPC 2.0 requests */
+export const JSON_RPC_PATH = '/rpc';
+
+/** Maps an API response to an HTTP status code */
+export function toHttpStatus(response: ApiResponse<unknown>, route: RouteDefinition): number {
+  if (response.status === 'success') {
+    return route.successStatus ?? HttpStatus.OK;
+  }
+  return httpStatusForCode(response.code ?? 'INTERNAL');
+}
+
+/** Uses the caller's correlation id when it is well-formed, otherwise generates one */
+export function resolveCorrelationId(request: IncomingMessage): string {
+  const header = request.headers[CORRELATION_ID_HEADER];
+  return typeof header === 'string' && /^[\w.:-]{1,128}$/.test(header) ? header : generateId();
+}
+
+/**
+ * Reads the tenant from the request, defaulting to DEFAULT_TENANT_ID.
+ * Throws a BadRequestError for a malformed tenant id.
+ */
+export function resolveTenantId(request: IncomingMessage): string {
+  const header = request.headers[TENANT_ID_HEADER];
+  if (header === undefined || header === '') {
+    return DEFAULT_TENANT_ID;
+  }
+  if (!isValidTenantId(header)) {
+    throw new BadRequestError(`Invalid ${TENANT_ID_HEADER} header`);
+  }
+  return header;
+}
+
+/**
+ * Negotiates the response locale from `Accept-Language`.
+ * Returns undefined without the header, so messages stay untranslated.
+ */
+export function resolveLocale(request: IncomingMessage): SupportedLocale | undefined {
+  const header = request.headers[ACCEPT_LANGUAGE_HEADER];
+  return header ? negotiateLocale(header) : undefined;
+}
+
+/** Builds the request context for an incoming request */
+export function createRequestContext(
+  request: IncomingMessage,
+  correlationId: string = resolveCorrelationId(request)
+): RequestContext {
+  const userId = request.headers[USER_ID_HEADER];
+  const idempotencyKey = request.headers[IDEMPOTENCY_KEY_HEADER];
+  const locale = resolveLocale(request);
+  return {
+    tenantId: resolveTenantId(request),
+    ...(locale && { locale }),
+    userId: typeof userId === 'string' && userId.length > 0 ? userId : undefined,
+    timestamp: getClock().now(),
+    idempotencyKey:
+      typeof idempotencyKey === 'string' && idempotencyKey.length > 0 ? idempotencyKey : undefined,
+    correlationId,
+  };
+}
+
+/**
+ * Reads the raw request body, failing with PayloadTooLargeError once it
+ * exceeds `maxBytes`. The rest of an oversized body is left unread (Node
+ * discards it) rather than destroying the connection, so the 413 still
+ * reaches the client.
+ */
+export function readBody(request: IncomingMessage, maxBytes: number = MAX_BODY_BYTES): Promise<string> {
+  const tooLarge = () => new PayloadTooLargeError(`Request body exceeds ${maxBytes} bytes`);
+  if (Number(request.headers['content-length']) > maxBytes) {
+    return Promise.reject(tooLarge());
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stop = () => {
+      request.off('data', onData);
+      request.off('end', onEnd);
+      request.off('error', onError);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stop();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      stop();
+      resolve(Buffer.concat(chunks).toString('utf8'));
+    };
+    const onError = (error: Error) => {
+      stop();
+      reject(error);
+    };
+    request.on('data', onData);
+    request.on('end', onEnd);
+    request.on('error', onError);
+  });
+}
+
+/** Parses a JSON object body (an empty body is treated as `{}`) */
+function parseJsonBody(raw: string): Record<string, unknown> {
+  if (raw.trim().length === 0) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new BadRequestError('Request body is not valid JSON');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new BadRequestError('Request body must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/** Writes a JSON response */
+export function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    ...headers,
+  });
+  response.end(JSON.stringify(body));
+}
+
+/** Writes an error ApiResponse */
+function sendError(
+  response: ServerResponse,
+  error: AppError,
+  headers: Record<string, string> = {}
+): void {
+  const body: ApiResponse<never> = {
+    status: 'error',
+    message: error.message,
+    code: error.code,
+    requestedAt: formatDate(getClock().now()),
+  };
+  sendJson(response, error.httpStatus, body, headers);
+}
+
+/** Dispatches a single request through the route table */
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  handlers: RouteHandlers,
+  routeTable: RouteDefinition[],
+  rpc: JsonRpcDispatcher,
+  metrics?: MetricsRegistry
+): Promise<void> {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const method = (request.method ?? 'GET').toUpperCase();
+  const correlationId = resolveCorrelationId(request);
+  response.setHeader(CORRELATION_ID_HEADER, correlationId);
+  const locale = resolveLocale(request);
+  if (locale) {
+    response.setHeader(CONTENT_LANGUAGE_HEADER, locale);
+  }
+
+  if (metrics && url.pathname === METRICS_PATH) {
+    if (method !== 'GET') {
+      sendError(response, new MethodNotAllowedError(`Method ${method} not allowed`), { Allow: 'GET' });
+      return;
+    }
+    const body = await metrics.expose();
+    response.writeHead(HttpStatus.OK, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+    response.end(body);
+    return;
+  }
+
+  // Rejects a malformed tenant before any handler runs
+  resolveTenantId(request);
+
+  if (url.pathname === JSON_RPC_PATH) {
+    if (method !== 'POST') {
+      sendError(response, new MethodNotAllowedError(`Method ${method} not allowed`), { Allow: 'POST' });
+      return;
+    }
+    // Batches share one HTTP request, so RPC calls pass idempotency keys as params instead
+    const result = await rpc.handle(await readBody(request), () => ({
+      ...createRequestContext(request, correlationId),
+      idempotencyKey: undefined,
+    }));
+    if (result === null) {
+      response.writeHead(HttpStatus.NoContent);
+      response.end();
+    } else {
+      response.writeHead(HttpStatus.OK, { 'Content-Type': 'application/json; charset=utf-8' });
+      response.end(result);
+    }
+    return;
+  }
+
+  const match = matchRoute(routeTable, method, url.pathname);
+  if (!match) {
+    const allowed = allowedMethods(routeTable, url.pathname);
+    if (allowed.length > 0) {
+      sendError(response, new MethodNotAllowedError(`Method ${method} not allowed`), {
+        Allow: allowed.join(', '),
+      });
+    } else {
+      sendError(response, new NotFoundError(`No route for ${method} ${url.pathname}`));
+    }
+    return;
+  }
+
+  const body = parseJsonBody(await readBody(request));
+  const result = await match.route.handle(
+    {
+      params: match.params,
+      query: url.searchParams,
+      body,
+      context: createRequestContext(request, correlationId),
+    },
+    handlers
+  );
+  sendJson(response, toHttpStatus(result, match.route), result);
+}
+
+/**
+ * Creates an HTTP server serving the given handlers over REST and JSON-RPC.
+ * When a metrics registry is given it is exposed at `GET /metrics`.
+ */
+export function createApiServer(
+  handlers: RouteHandlers,
+  routeTable: RouteDefinition[] = routes,
+  metrics?: MetricsRegistry
+): Server {
+  const rpc = new JsonRpcDispatcher(handlers);
+  return createServer((request, response) => {
+    handleRequest(request, response, handlers, routeTable, rpc, metrics).catch((error: unknown) => {
+      if (response.headersSent) {
+        response.end();
+        return;
+      }
+      const appError = error instanceof URIError ? new BadRequestError(error.message) : toAppError(error);
+      sendError(response, appError);
+    });
+  });
+}
@@ -0,0 +1,281 @@
+/**
+ * Input validation for API handlers.
+ * Each operation declares per-field rules that raw input is checked against
+ * before it reaches the service layer.
+ *
+ * Test scenarios:
+ * - "Find References" on validateInput shows every handler that validates
+ * - Rename FieldRule and see the rule builders update
+ * - Add a rule to operationRules and see the handler reject bad input
+ */
+
+import type { FieldError } from '../core/errors.js';
+import { MAX_PAGE_SIZE } from '../core/listing.js';
+import { UserRole } from '../models/user.js';
+import { ProductCategory } from '../models/product.js';
+import { USER_SORT_FIELDS } from '../services/userService.js';
+import { PRODUCT_SORT_FIELDS } from '../services/productService.js';
+
+/** A rule checks one field value, returning an error or null */
+export type FieldRule = (value: unknown, field: string) => FieldError | null;
+
+/** Rules for each field of an operation's input */
+export type OperationRules = Record<string, FieldRule[]>;
+
+/** Email validation regex */
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** ISO 4217 currency code regex */
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+
+/** Creates a field error; params let core/i18n.ts translate the message */
+function fieldError(field: string, code: string, message: string, params?: FieldError['params']): FieldError {
+  return params ? { field, code, message, params } : { field, code, message };
+}
+
+/** Checks whether a value is missing */
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim().length === 0);
+}
+
+/** Field must be present and non-empty */
+export function required(): FieldRule {
+  return (value, field) =>
+    isMissing(value) ? fieldError(field, 'REQUIRED', `${field} is required`) : null;
+}
+
+/** Field, when present, must be a string within the given length bounds */
+export function string(options: { minLength?: number; maxLength?: number } = {}): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (typeof value !== 'string') {
+      return fieldError(field, 'INVALID_TYPE', `${field} must be a string`, { kind: 'string' });
+    }
+    if (options.minLength !== undefined && value.trim().length < options.minLength) {
+      return fieldError(field, 'MIN_LENGTH', `${field} must be at least ${options.minLength} characters`, {
+        min: options.minLength,
+      });
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return fieldError(field, 'MAX_LENGTH', `${field} must not exceed ${options.maxLength} characters`, {
+        max: options.maxLength,
+      });
+    }
+    return null;
+  };
+}
+
+/** Field, when present, must be a valid email address */
+export function email(): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (typeof value !== 'string' || !EMAIL_REGEX.test(value)) {
+      return fieldError(field, 'INVALID_FORMAT', `${field} must be a valid email address`, { kind: 'email' });
+    }
+    return null;
+  };
+}
+
+/** Field, when present, must be a finite number within the given bounds */
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return fieldError(field, 'INVALID_TYPE', `${field} must be a number`, { kind: 'number' });
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      return fieldError(field, 'INVALID_TYPE', `${field} must be an integer`, { kind: 'integer' });
+    }
+    if (options.min !== undefined && value < options.min) {
+      return fieldError(field, 'OUT_OF_RANGE', `${field} must be at least ${options.min}`, {
+        kind: 'min',
+        min: options.min,
+      });
+    }
+    if (options.max !== undefined && value > options.max) {
+      return fieldError(field, 'OUT_OF_RANGE', `${field} must not exceed ${options.max}`, {
+        kind: 'max',
+        max: options.max,
+      });
+    }
+    return null;
+  };
+}
+
+/** Field, when present, must be one of the allowed values */
+export function oneOf(allowed: readonly string[]): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      return fieldError(field, 'INVALID_VALUE', `${field} must be one of: ${allowed.join(', ')}`, {
+        kind: 'oneOf',
+        allowed: allowed.join(', '),
+      });
+    }
+    return null;
+  };
+}
+
+/** Field, when present, must be a boolean */
+export function boolean(): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (typeof value !== 'boolean') {
+      return fieldError(field, 'INVALID_TYPE', `${field} must be a boolean`, { kind: 'boolean' });
+    }
+    return null;
+  };
+}
+
+/** Field, when present, must be an array of strings */
+export function stringArray(): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+      return fieldError(field, 'INVALID_TYPE', `${field} must be an array of strings`, {
+        kind: 'stringArray',
+      });
+    }
+    return null;
+  };
+}
+
+/** Field, when present, must be a list of sort keys on the allowed fields */
+export function sortFields(allowed: readonly string[]): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (!Array.isArray(value)) {
+      return fieldError(field, 'INVALID_TYPE', `${field} must be an array`, { kind: 'array' });
+    }
+    for (const entry of value as unknown[]) {
+      const key = entry as { field?: unknown; direction?: unknown } | null;
+      if (typeof key?.field !== 'string' || !allowed.includes(key.field)) {
+        return fieldError(field, 'INVALID_VALUE', `${field} can only use: ${allowed.join(', ')}`, {
+          kind: 'sort',
+          allowed: allowed.join(', '),
+        });
+      }
+      if (key.direction !== 'asc' && key.direction !== 'desc') {
+        return fieldError(field, 'INVALID_VALUE', `${field} direction must be asc or desc`, {
+          kind: 'direction',
+        });
+      }
+    }
+    return null;
+  };
+}
+
+/** Field, when present, must be a Price object */
+export function price(): FieldRule {
+  return (value, field) => {
+    if (value === undefined) return null;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fieldError(field, 'INVALID_TYPE', `${field} must be an object`, { kind: 'object' });
+    }
+    const { amount, currency } = value as Record<string, unknown>;
+    return (
+      required()(amount, `${field}.amount`) ??
+      number({ min: 0 })(amount, `${field}.amount`) ??
+      required()(currency, `${field}.currency`) ??
+      (typeof currency !== 'string' || !CURRENCY_REGEX.test(currency)
+        ? fieldError(
+            `${field}.currency`,
+            'INVALID_FORMAT',
+            `${field}.currency must be a 3-letter ISO currency code`,
+            { kind: 'currency' }
+          )
+        : null)
+    );
+  };
+}
+
+/** Rules shared by operations that take an entity id */
+const idRules: OperationRules = {
+  id: [required(), string()],
+};
+
+/** Rules shared by list operations */
+const listRules: OperationRules = {
+  page: [number({ min: 1, integer: true })],
+  pageSize: [number({ min: 1, max: MAX_PAGE_SIZE, integer: true })],
+};
+
+/** Validation rules for each handler operation */
+export const operationRules = {
+  listUsers: {
+    ...listRules,
+    sort: [sortFields(USER_SORT_FIELDS)],
+    role: [oneOf(Object.values(UserRole))],
+    isActive: [boolean()],
+  },
+  registerUser: {
+    email: [required(), email()],
+    username: [required(), string({ minLength: 2, maxLength: 50 })],
+    displayName: [required(), string({ minLength: 2, maxLength: 100 })],
+  },
+  getUser: idRules,
+  updateUserProfile: {
+    ...idRules,
+    email: [email()],
+    displayName: [string({ minLength: 2, maxLength: 100 })],
+  },
+  changeUserRole: {
+    targetUserId: [required(), string()],
+    role: [required(), oneOf(Object.values(UserRole))],
+  },
+  deactivateUser: idRules,
+  deleteUser: idRules,
+  createProduct: {
+    name: [required(), string({ minLength: 2, maxLength: 200 })],
+    description: [required(), string({ maxLength: 2000 })],
+    sku: [required(), string({ minLength: 1, maxLength: 64 })],
+    price: [required(), price()],
+    category: [required(), oneOf(Object.values(ProductCategory))],
+  },
+  getProduct: idRules,
+  listProducts: {
+    ...listRules,
+    sort: [sortFields(PRODUCT_SORT_FIELDS)],
+    category: [oneOf(Object.values(ProductCategory))],
+    isActive: [boolean()],
+    tags: [stringArray()],
+    minPrice: [number({ min: 0 })],
+    maxPrice: [number({ min: 0 })],
+  },
+  updateProductStock: {
+    ...idRules,
+    quantity: [required(), number({ min: 0, integer: true })],
+  },
+  updateProductPrice: {
+    ...idRules,
+    price: [required(), price()],
+  },
+  deactivateProduct: idRules,
+  deleteProduct: idRules,
+} satisfies Record<string, OperationRules>;
+
+/** Name of a validated operation */
+export type ValidatedOperation = keyof typeof operationRules;
+
+/** Checks input against a set of field rules, returning the first error per field */
+export function validateFields(input: Record<string, unknown>, rules: OperationRules): FieldError[] {
+  const errors: FieldError[] = [];
+  for (const [field, fieldRules] of Object.entries(rules)) {
+    for (const rule of fieldRules) {
+      const error = rule(input[field], field);
+      if (error) {
+        errors.push(error);
+        break;
+      }
+    }
+  }
+  return errors;
+}
+
+/** Validates the input of a handler operation */
+export function validateInput(
+  operation: ValidatedOperation,
+  input: Record<string, unknown>
+): FieldError[] {
+  return validateFields(input, operationRules[operation]);
+}
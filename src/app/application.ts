@@ -0,0 +1,403 @@
+/**
+ * Composition root - wires per-tenant repositories and services, event
+ * handlers and API handlers from configuration, with startup and shutdown hooks.
+ *
+ * Test scenarios:
+ * - "Find References" on createApplication shows the demo and the CLI
+ * - "Go to Definition" on AppServices navigates here from the CLI
+ * - Rename onStop and see the lifecycle callers update
+ */
+
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { join } from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+import type { Entity, EventHandler, Repository } from '../core/types.js';
+import { BadRequestError } from '../core/errors.js';
+import type { Logger } from '../core/logger.js';
+import { bindLogger, silentLogger } from '../core/logger.js';
+import type { MetricsRegistry } from '../core/metrics.js';
+import { InstrumentedRepository } from '../core/metrics.js';
+import type { LruCacheOptions } from '../core/cache.js';
+import { CachedRepository } from '../core/cache.js';
+import type { FlagDefinition } from '../core/flags.js';
+import { FlagRegistry } from '../core/flags.js';
+import { FileFlagSource } from '../core/flagSource.js';
+import { JsonFileRepository } from '../core/jsonFileRepository.js';
+import type { TenantRegistryOptions, TenantResolver, UniqueConstraint } from '../core/tenancy.js';
+import { DEFAULT_TENANT_ID, TenantRegistry, TenantScopedRepository, isValidTenantId } from '../core/tenancy.js';
+import type { User } from '../models/user.js';
+import { InMemoryUserRepository, SqliteUserRepository, USER_UNIQUE_CONSTRAINTS } from '../models/user.js';
+import type { Product } from '../models/product.js';
+import {
+  InMemoryProductRepository,
+  SqliteProductRepository,
+  PRODUCT_UNIQUE_CONSTRAINTS,
+} from '../models/product.js';
+import { UserService } from '../services/userService.js';
+import { ProductService } from '../services/productService.js';
+import { UserApiHandler, ProductApiHandler, tenantOf } from '../api/handlers.js';
+import { IdempotencyGuard } from '../api/idempotency.js';
+import { instrumentHandler, registerDomainGauges } from '../api/metrics.js';
+import { FeatureFlags } from '../api/flags.js';
+import type { RouteHandlers } from '../api/router.js';
+import { createApiServer } from '../api/server.js';
+
+/** Repositories of one tenant */
+export interface AppRepositories {
+  users: Repository<User>;
+  products: Repository<Product>;
+}
+
+/** Services of one tenant */
+export interface AppServices {
+  users: UserService;
+  products: ProductService;
+}
+
+/** Everything wired for one tenant */
+export interface TenantScope {
+  tenantId: string;
+  /** Tenant-scoped repositories; other tenants' entities are invisible through them */
+  repositories: AppRepositories;
+  services: AppServices;
+}
+
+/** Configuration for createApplication; every field is optional */
+export interface AppConfig {
+  /** Logger for handlers and services (defaults to silentLogger) */
+  logger?: Logger;
+  /**
+   * Storage for each tenant, called once per tenant. Defaults to a separate
+   * in-memory repository per tenant; a store shared by tenants also works
+   * because every repository is wrapped in a TenantScopedRepository.
+   */
+  repositories?: {
+    users?: TenantResolver<Repository<User>>;
+    products?: TenantResolver<Repository<Product>>;
+  };
+  /** Entity event subscribers, attached to the services at wiring time */
+  eventHandlers?: {
+    users?: EventHandler<User>[];
+    products?: EventHandler<Product>[];
+  };
+  /**
+   * Read-through caching of each tenant's repositories, invalidated by writes
+   * and by the services' change events; omitted means no caching
+   */
+  cache?: LruCacheOptions;
+  /** Registry to record handler and repository metrics in; omitted means no metrics */
+  metrics?: MetricsRegistry;
+  /** Feature flags registered up front, and an optional JSON flag file loaded on start */
+  flags?: {
+    definitions?: FlagDefinition[];
+    /** Path of a flag file (see FileFlagSource) */
+    file?: string;
+    /** Reload the flag file when it changes (defaults to true) */
+    watch?: boolean;
+  };
+  /**
+   * Tenants requests may name. Any well-formed tenant id is accepted when
+   * `allowed` is omitted, up to `maxTenants` (see TenantRegistry); the
+   * default tenant is always allowed.
+   */
+  tenants?: TenantRegistryOptions;
+  /** HTTP server to start with the application; omitted means no server */
+  server?: { port: number; host?: string };
+}
+
+/** Work run when the application starts or stops */
+export type LifecycleHook = () => void | Promise<void>;
+
+/** Lifecycle state of an application */
+export type AppState = 'created' | 'starting' | 'running' | 'stopping' | 'stopped';
+
+/** Closes a server, resolving once open connections have ended */
+function closeServer(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  });
+}
+
+/** A wired application with startup and shutdown hooks */
+export class Application {
+  private startHooks: LifecycleHook[] = [];
+  private stopHooks: LifecycleHook[] = [];
+  private currentState: AppState = 'created';
+  private httpServer: Server | null = null;
+
+  constructor(
+    private readonly tenants: TenantRegistry<TenantScope>,
+    readonly handlers: RouteHandlers,
+    readonly flags: FeatureFlags,
+    readonly logger: Logger,
+    private readonly config: AppConfig = {}
+  ) {}
+
+  /** Current lifecycle state */
+  get state(): AppState {
+    return this.currentState;
+  }
+
+  /** Repositories and services of a tenant, wired on first use */
+  forTenant(tenantId: string): TenantScope {
+    return this.tenants.get(tenantId);
+  }
+
+  /** Services of the default tenant */
+  get services(): AppServices {
+    return this.forTenant(DEFAULT_TENANT_ID).services;
+  }
+
+  /** Tenants wired so far */
+  tenantIds(): string[] {
+    return this.tenants.tenantIds();
+  }
+
+  /** The HTTP server, once started */
+  get server(): Server | null {
+    return this.httpServer;
+  }
+
+  /** Registers a hook run on start, in registration order */
+  onStart(hook: LifecycleHook): this {
+    this.startHooks.push(hook);
+    return this;
+  }
+
+  /** Registers a hook run on stop, in reverse registration order */
+  onStop(hook: LifecycleHook): this {
+    this.stopHooks.push(hook);
+    return this;
+  }
+
+  /**
+   * Runs the start hooks, then starts the HTTP server if configured.
+   * If a hook fails the application is stopped and the error rethrown.
+   */
+  async start(): Promise<void> {
+    if (this.currentState !== 'created') {
+      throw new Error(`Cannot start an application that is ${this.currentState}`);
+    }
+    this.currentState = 'starting';
+
+    try {
+      for (const hook of this.startHooks) {
+        await hook();
+      }
+      if (this.config.server) {
+        await this.listen(this.config.server.port, this.config.server.host);
+      }
+    } catch (error) {
+      this.logger.error('Application failed to start', { error });
+      await this.stop();
+      throw error;
+    }
+
+    this.currentState = 'running';
+    this.logger.info('Application started', { port: this.port() });
+  }
+
+  /**
+   * Stops the HTTP server, then runs every stop hook.
+   * Hook failures are logged and do not prevent later hooks from running.
+   */
+  async stop(): Promise<void> {
+    if (this.currentState === 'stopping' || this.currentState === 'stopped') {
+      return;
+    }
+    this.currentState = 'stopping';
+
+    if (this.httpServer) {
+      await closeServer(this.httpServer).catch((error: unknown) => {
+        this.logger.error('Failed to close HTTP server', { error });
+      });
+      this.httpServer = null;
+    }
+    for (const hook of [...this.stopHooks].reverse()) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error('Shutdown hook failed', { error });
+      }
+    }
+
+    this.currentState = 'stopped';
+    this.logger.info('Application stopped');
+  }
+
+  /** Port the HTTP server listens on, if started */
+  port(): number | undefined {
+    const address = this.httpServer?.address();
+    return typeof address === 'object' && address !== null ? (address as AddressInfo).port : undefined;
+  }
+
+  private listen(port: number, host?: string): Promise<void> {
+    const server = createApiServer(this.handlers, undefined, this.config.metrics);
+    this.httpServer = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+}
+
+/** Wraps a tenant's storage with optional metrics and tenant scoping */
+function scopedRepository<T extends Entity>(
+  tenantId: string,
+  storage: Repository<T>,
+  entityName: string,
+  constraints: UniqueConstraint<T>[],
+  metrics?: { registry: MetricsRegistry; repositoryName: string }
+): Repository<T> {
+  const inner = metrics
+    ? new InstrumentedRepository(storage, metrics.repositoryName, metrics.registry)
+    : storage;
+  return new TenantScopedRepository(tenantId, inner, entityName, constraints);
+}
+
+/** Registry options from configuration, with the default tenant always allowed */
+function tenantOptions(options: TenantRegistryOptions = {}): TenantRegistryOptions {
+  return options.allowed ? { ...options, allowed: [DEFAULT_TENANT_ID, ...options.allowed] } : options;
+}
+
+/**
+ * Storage keeping each tenant's users and products in JSON files, at
+ * `<directory>/<tenantId>/users.json` and `products.json`.
+ */
+export function jsonFileStorage(directory: string, logger?: Logger): NonNullable<AppConfig['repositories']> {
+  return {
+    users: tenantId =>
+      new JsonFileRepository<User>(join(directory, tenantId, 'users.json'), {
+        entityName: 'User',
+        dateFields: ['lastLoginAt'],
+        logger,
+      }),
+    products: tenantId =>
+      new JsonFileRepository<Product>(join(directory, tenantId, 'products.json'), {
+        entityName: 'Product',
+        logger,
+      }),
+  };
+}
+
+/**
+ * Storage keeping every tenant's users and products in one SQLite database
+ * (see openSqliteDatabase); each tenant's queries are restricted to its rows.
+ */
+export function sqliteStorage(database: DatabaseSync): NonNullable<AppConfig['repositories']> {
+  return {
+    users: tenantId => new SqliteUserRepository(database, tenantId),
+    products: tenantId => new SqliteProductRepository(database, tenantId),
+  };
+}
+
+/**
+ * Creates an application from configuration.
+ * Each tenant gets its own repositories and services, created on first use;
+ * handlers pick the tenant from the request context.
+ */
+export function createApplication(config: AppConfig = {}): Application {
+  const logger = config.logger ?? silentLogger;
+  const metrics = config.metrics;
+  const userStorage = config.repositories?.users ?? (() => new InMemoryUserRepository());
+  const productStorage = config.repositories?.products ?? (() => new InMemoryProductRepository());
+  // Shared by the services of every tenant and the request-level flag evaluator
+  const flagRegistry = new FlagRegistry(config.flags?.definitions);
+
+  const tenants = new TenantRegistry<TenantScope>(tenantId => {
+    if (!isValidTenantId(tenantId)) {
+      throw new BadRequestError(`Invalid tenant id: ${tenantId}`);
+    }
+    const scoped: AppRepositories = {
+      users: scopedRepository(
+        tenantId,
+        userStorage(tenantId),
+        'User',
+        USER_UNIQUE_CONSTRAINTS,
+        metrics && { registry: metrics, repositoryName: 'users' }
+      ),
+      products: scopedRepository(
+        tenantId,
+        productStorage(tenantId),
+        'Product',
+        PRODUCT_UNIQUE_CONSTRAINTS,
+        metrics && { registry: metrics, repositoryName: 'products' }
+      ),
+    };
+    const caches = config.cache && {
+      users: new CachedRepository(scoped.users, config.cache),
+      products: new CachedRepository(scoped.products, config.cache),
+    };
+    const repositories: AppRepositories = caches ?? scoped;
+    const tenantLogger = bindLogger(logger, { tenantId });
+    const services: AppServices = {
+      users: new UserService(
+        repositories.users,
+        bindLogger(tenantLogger, { component: 'UserService' }),
+        tenantId,
+        flagRegistry
+      ),
+      products: new ProductService(
+        repositories.products,
+        bindLogger(tenantLogger, { component: 'ProductService' }),
+        tenantId,
+        flagRegistry
+      ),
+    };
+    if (caches) {
+      services.users.onEvent(caches.users.invalidateOnEvent);
+      services.products.onEvent(caches.products.invalidateOnEvent);
+    }
+    config.eventHandlers?.users?.forEach(handler => services.users.onEvent(handler));
+    config.eventHandlers?.products?.forEach(handler => services.products.onEvent(handler));
+    return { tenantId, repositories, services };
+  }, tenantOptions(config.tenants));
+
+  const flags = new FeatureFlags(flagRegistry, context =>
+    context.userId === undefined
+      ? Promise.resolve(null)
+      : tenants.get(tenantOf(context)).repositories.users.findById(context.userId)
+  );
+
+  const userHandler = new UserApiHandler(
+    tenantId => tenants.get(tenantId).services.users,
+    new IdempotencyGuard(),
+    logger,
+    flags
+  );
+  const productHandler = new ProductApiHandler(
+    tenantId => tenants.get(tenantId).services.products,
+    new IdempotencyGuard(),
+    logger
+  );
+  const handlers: RouteHandlers = metrics
+    ? {
+        users: instrumentHandler(userHandler, 'UserApiHandler', metrics),
+        products: instrumentHandler(productHandler, 'ProductApiHandler', metrics),
+      }
+    : { users: userHandler, products: productHandler };
+  if (metrics) {
+    registerDomainGauges(metrics, productHandler, () => tenants.tenantIds());
+  }
+
+  const app = new Application(tenants, handlers, flags, logger, config);
+
+  const flagFile = config.flags?.file;
+  if (flagFile) {
+    const source = new FileFlagSource(flagFile, flags.registry, {
+      logger: bindLogger(logger, { component: 'flags' }),
+    });
+    app.onStart(async () => {
+      await source.load();
+      if (config.flags?.watch !== false) {
+        source.watch();
+      }
+    });
+    app.onStop(() => source.close());
+  }
+  return app;
+}
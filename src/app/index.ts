@@ -0,0 +1,5 @@
+/**
+ * App module barrel export.
+ */
+
+export * from './application.js';
@@ -0,0 +1,88 @@
+/**
+ * Command-line argument parsing for the admin CLI.
+ *
+ * Test scenarios:
+ * - "Find References" on parseArgs shows the CLI runner
+ * - Rename ParsedArgs and see the command table update
+ * - "Go to Definition" on BadRequestError from a usage error
+ */
+
+import { BadRequestError } from '../core/errors.js';
+
+/** Parsed command-line arguments */
+export interface ParsedArgs {
+  positionals: string[];
+  /** Option values by name; repeated options keep every value */
+  options: Map<string, string[]>;
+  flags: Set<string>;
+}
+
+/** Options that take no value */
+const BOOLEAN_FLAGS = new Set(['json', 'help']);
+
+/**
+ * Parses `--name value`, `--name=value` and boolean `--flag` arguments.
+ * Everything else is positional; `--` ends option parsing.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], options: new Map(), flags: new Set() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg === '--') {
+      parsed.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [name = '', inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      parsed.flags.add(name);
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined) {
+      throw new BadRequestError(`Option --${name} requires a value`);
+    }
+    parsed.options.set(name, [...(parsed.options.get(name) ?? []), value]);
+  }
+
+  return parsed;
+}
+
+/** Splits a command line into arguments, honouring single and double quotes */
+export function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g;
+  for (const match of line.matchAll(pattern)) {
+    tokens.push(match[1]?.replace(/\\(.)/g, '$1') ?? match[2] ?? match[3] ?? '');
+  }
+  return tokens;
+}
+
+/** Gets the last value of an option */
+export function getOption(args: ParsedArgs, name: string): string | undefined {
+  return args.options.get(name)?.at(-1);
+}
+
+/** Gets a positional argument, failing with a usage error when it is missing */
+export function requirePositional(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (value === undefined) {
+    throw new BadRequestError(`Missing argument <${name}>`);
+  }
+  return value;
+}
+
+/** Parses a numeric argument, failing with a usage error when it is not a number */
+export function toNumber(value: string, name: string): number {
+  const parsed = Number(value);
+  if (value.trim().length === 0 || !Number.isFinite(parsed)) {
+    throw new BadRequestError(`${name} must be a number`);
+  }
+  return parsed;
+}
@@ -0,0 +1,336 @@
+/**
+ * Command table for the admin CLI - maps `<group> <command>` onto the services.
+ *
+ * Test scenarios:
+ * - "Find References" on deactivateUser shows the CLI command that calls it
+ * - Rename CliCommand and see the runner update
+ * - Add a command and follow it down to the service layer
+ */
+
+import type { OperationResult } from '../core/types.js';
+import { success } from '../core/utils.js';
+import { BadRequestError, ValidationError } from '../core/errors.js';
+import type { Page } from '../core/listing.js';
+import type { UserRole } from '../models/user.js';
+import type { ProductCategory } from '../models/product.js';
+import type { UserService, UserListQuery } from '../services/userService.js';
+import type { ProductService, ProductListQuery } from '../services/productService.js';
+import {
+  calculateInventoryValueFromStream,
+  summarizeCategoriesFromStream,
+} from '../services/productService.js';
+import type { ValidatedOperation } from '../api/validation.js';
+import { validateInput } from '../api/validation.js';
+import { parseListQuery } from '../api/router.js';
+import type { SeedRepositories } from '../fixtures/seed.js';
+import { seedRepositories } from '../fixtures/seed.js';
+import type { ParsedArgs } from './args.js';
+import { getOption, requirePositional, toNumber } from './args.js';
+import type { Column } from './output.js';
+import { formatTable, userColumns, productColumns } from './output.js';
+
+/** Services the CLI operates on */
+export interface CliServices {
+  users: UserService;
+  products: ProductService;
+  /** Storage written directly by `data seed` (the command fails without it) */
+  repositories?: SeedRepositories;
+}
+
+/** What a command prints: `data` in JSON mode, `table` otherwise */
+export interface CommandOutput {
+  data: unknown;
+  table: string;
+}
+
+/** A single entry in the command table */
+export interface CliCommand {
+  group: string;
+  name: string;
+  /** Arguments and options, e.g. `<id> <quantity>` */
+  usage: string;
+  summary: string;
+  run(args: ParsedArgs, services: CliServices): Promise<OperationResult<CommandOutput>>;
+}
+
+/** Stock level below which `products low-stock` reports a product */
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+/** Parses an optional non-negative integer option */
+function integerOption(args: ParsedArgs, name: string): number | undefined {
+  const value = getOption(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = toNumber(value, name);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new BadRequestError(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/** Throws a validation error when the input breaks the operation's rules */
+function ensureValid(operation: ValidatedOperation, input: Record<string, unknown>): void {
+  const errors = validateInput(operation, input);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+}
+
+/** Maps a service result onto command output */
+function toOutput<T>(result: OperationResult<T>, table: (data: T) => string): OperationResult<CommandOutput> {
+  if (!result.success || result.data === undefined) {
+    return result as OperationResult<never>;
+  }
+  return success({ data: result.data, table: table(result.data) });
+}
+
+/** Renders a page of results with a paging footer */
+function pageOutput<T>(page: Page<T>, columns: Column<T>[]): OperationResult<CommandOutput> {
+  const { meta } = page;
+  const footer = `Page ${meta.page} of ${Math.max(meta.totalPages, 1)} (${meta.total} total)`;
+  return success({
+    data: { items: page.items, pagination: meta },
+    table: `${formatTable(page.items, columns)}\n${footer}`,
+  });
+}
+
+/**
+ * Converts list options into a list query.
+ * `optionNames` maps CLI option names onto query parameter names.
+ */
+function listQueryFrom(args: ParsedArgs, optionNames: Record<string, string>): Record<string, unknown> {
+  const params = new URLSearchParams();
+  for (const [option, param] of Object.entries(optionNames)) {
+    for (const value of args.options.get(option) ?? []) {
+      params.append(param, value);
+    }
+  }
+  return parseListQuery(params);
+}
+
+/** Options shared by list commands */
+const listOptionNames: Record<string, string> = {
+  page: 'page',
+  'page-size': 'pageSize',
+  sort: 'sort',
+  active: 'isActive',
+};
+
+/** Default command table */
+export const commands: CliCommand[] = [
+  {
+    group: 'users',
+    name: 'create',
+    usage: '--email <email> --username <username> --display-name <name>',
+    summary: 'Register a new user',
+    run: async (args, { users }) => {
+      const input = {
+        email: getOption(args, 'email'),
+        username: getOption(args, 'username'),
+        displayName: getOption(args, 'display-name'),
+      };
+      ensureValid('registerUser', input);
+      const result = await users.registerUser(input.email ?? '', input.username ?? '', input.displayName ?? '');
+      return toOutput(result, user => formatTable([user], userColumns));
+    },
+  },
+  {
+    group: 'users',
+    name: 'list',
+    usage: '[--role <role>] [--active true|false] [--sort <fields>] [--page <n>] [--page-size <n>]',
+    summary: 'List users',
+    run: async (args, { users }) => {
+      const query = listQueryFrom(args, { ...listOptionNames, role: 'role' });
+      ensureValid('listUsers', query);
+      return pageOutput(await users.listUsers(query as UserListQuery), userColumns);
+    },
+  },
+  {
+    group: 'users',
+    name: 'deactivate',
+    usage: '<id>',
+    summary: 'Deactivate a user',
+    run: async (args, { users }) => {
+      const result = await users.deactivateUser(requirePositional(args, 0, 'id'));
+      return toOutput(result, user => formatTable([user], userColumns));
+    },
+  },
+  {
+    group: 'users',
+    name: 'set-role',
+    usage: '<id> <role>',
+    summary: 'Change the role of a user',
+    run: async (args, { users }) => {
+      const input = {
+        targetUserId: requirePositional(args, 0, 'id'),
+        role: requirePositional(args, 1, 'role'),
+      };
+      ensureValid('changeUserRole', input);
+      const result = await users.assignUserRole(input.targetUserId, input.role as UserRole);
+      return toOutput(result, user => formatTable([user], userColumns));
+    },
+  },
+  {
+    group: 'products',
+    name: 'create',
+    usage:
+      '--name <name> --description <text> --sku <sku> --price <amount> --currency <code> --category <category>',
+    summary: 'Create a product',
+    run: async (args, { products }) => {
+      const amount = getOption(args, 'price');
+      const input = {
+        name: getOption(args, 'name'),
+        description: getOption(args, 'description'),
+        sku: getOption(args, 'sku'),
+        price: amount === undefined
+          ? undefined
+          : { amount: toNumber(amount, 'price'), currency: getOption(args, 'currency') },
+        category: getOption(args, 'category'),
+      };
+      ensureValid('createProduct', input);
+      const result = await products.createProduct(
+        input.name ?? '',
+        input.description ?? '',
+        input.sku ?? '',
+        { amount: input.price?.amount ?? 0, currency: input.price?.currency ?? '' },
+        input.category as ProductCategory
+      );
+      return toOutput(result, product => formatTable([product], productColumns));
+    },
+  },
+  {
+    group: 'products',
+    name: 'list',
+    usage:
+      '[--category <category>] [--tag <tag>]... [--min-price <n>] [--max-price <n>] [--active true|false] [--sort <fields>] [--page <n>] [--page-size <n>]',
+    summary: 'List products',
+    run: async (args, { products }) => {
+      const query = listQueryFrom(args, {
+        ...listOptionNames,
+        category: 'category',
+        tag: 'tag',
+        'min-price': 'minPrice',
+        'max-price': 'maxPrice',
+      });
+      ensureValid('listProducts', query);
+      return pageOutput(await products.listProducts(query as ProductListQuery), productColumns);
+    },
+  },
+  {
+    group: 'products',
+    name: 'stock',
+    usage: '<id> <quantity>',
+    summary: 'Set the stock quantity of a product',
+    run: async (args, { products }) => {
+      const id = requirePositional(args, 0, 'id');
+      const quantity = toNumber(requirePositional(args, 1, 'quantity'), 'quantity');
+      ensureValid('updateProductStock', { id, quantity });
+      const result = await products.updateProductStock(id, quantity);
+      return toOutput(result, product => formatTable([product], productColumns));
+    },
+  },
+  {
+    group: 'products',
+    name: 'price',
+    usage: '<id> <amount> <currency>',
+    summary: 'Set the price of a product',
+    run: async (args, { products }) => {
+      const id = requirePositional(args, 0, 'id');
+      const price = {
+        amount: toNumber(requirePositional(args, 1, 'amount'), 'amount'),
+        currency: requirePositional(args, 2, 'currency'),
+      };
+      ensureValid('updateProductPrice', { id, price });
+      const result = await products.updateProductPrice(id, price);
+      return toOutput(result, product => formatTable([product], productColumns));
+    },
+  },
+  {
+    group: 'products',
+    name: 'low-stock',
+    usage: `[--threshold <n>] (default ${DEFAULT_LOW_STOCK_THRESHOLD})`,
+    summary: 'List active products whose stock is below the threshold',
+    run: async (args, { products }) => {
+      const threshold = getOption(args, 'threshold');
+      const lowStock = await products.getLowStockProducts(
+        threshold === undefined ? DEFAULT_LOW_STOCK_THRESHOLD : toNumber(threshold, 'threshold')
+      );
+      return success({ data: lowStock, table: formatTable(lowStock, productColumns) });
+    },
+  },
+  {
+    group: 'inventory',
+    name: 'value',
+    usage: '',
+    summary: 'Show the total inventory value',
+    run: async (_args, { products }) => {
+      const value = await calculateInventoryValueFromStream(products.streamProducts());
+      return success({ data: { value }, table: value.toFixed(2) });
+    },
+  },
+  {
+    group: 'inventory',
+    name: 'by-category',
+    usage: '',
+    summary: 'Show product counts and stock per category',
+    run: async (_args, { products }) => {
+      const summaries = await summarizeCategoriesFromStream(products.streamProducts());
+      const rows = Array.from(summaries, ([category, summary]) => ({ category, ...summary }));
+      const table = formatTable(rows, [
+        { header: 'CATEGORY', value: row => row.category },
+        { header: 'PRODUCTS', value: row => String(row.products) },
+        { header: 'STOCK', value: row => String(row.stockQuantity) },
+        { header: 'VALUE', value: row => row.inventoryValue.toFixed(2) },
+      ]);
+      return success({ data: rows, table });
+    },
+  },
+  {
+    group: 'data',
+    name: 'seed',
+    usage: '[--users <n>] [--products <n>] [--seed <n>]',
+    summary: 'Fill the repositories with generated users and products',
+    run: async (args, { users, repositories }) => {
+      if (!repositories) {
+        throw new BadRequestError('Seeding needs direct repository access');
+      }
+      const report = await seedRepositories(repositories, {
+        users: integerOption(args, 'users'),
+        products: integerOption(args, 'products'),
+        seed: integerOption(args, 'seed'),
+        tenantId: users.tenantId,
+      });
+      const table = formatTable(
+        [report],
+        [
+          { header: 'TENANT', value: row => row.tenantId },
+          { header: 'SEED', value: row => String(row.seed) },
+          { header: 'USERS', value: row => String(row.users) },
+          { header: 'PRODUCTS', value: row => String(row.products) },
+          { header: 'MS', value: row => String(row.durationMs) },
+        ]
+      );
+      return success({ data: report, table });
+    },
+  },
+];
+
+/** Finds a command by group and name */
+export function findCommand(
+  commandTable: CliCommand[],
+  group: string,
+  name: string
+): CliCommand | undefined {
+  return commandTable.find(command => command.group === group && command.name === name);
+}
+
+/** Formats the usage text for the command table */
+export function formatUsage(commandTable: CliCommand[], program: string = 'admin'): string {
+  const lines = [`Usage: ${program} <group> <command> [arguments] [--json]`, '', 'Commands:'];
+  for (const command of commandTable) {
+    lines.push(`  ${command.group} ${command.name} ${command.usage}`.trimEnd());
+    lines.push(`      ${command.summary}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,8 @@
+/**
+ * CLI module barrel export.
+ */
+
+export * from './args.js';
+export * from './output.js';
+export * from './commands.js';
+export * from './runner.js';
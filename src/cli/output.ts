@@ -0,0 +1,64 @@
+/**
+ * Table and JSON output for the admin CLI.
+ *
+ * Test scenarios:
+ * - "Find References" on formatTable shows the commands that print lists
+ * - Rename Column and see the user and product columns update
+ * - Add a column to productColumns and see it in `products list`
+ */
+
+import type { User } from '../models/user.js';
+import type { Product } from '../models/product.js';
+import { formatPrice } from '../models/product.js';
+import { toJsonValue } from '../api/jsonRpc.js';
+
+/** Output mode selected with `--json` */
+export type OutputFormat = 'table' | 'json';
+
+/** A table column */
+export interface Column<T> {
+  header: string;
+  value(row: T): string;
+}
+
+/** User table columns */
+export const userColumns: Column<User>[] = [
+  { header: 'ID', value: user => user.id },
+  { header: 'EMAIL', value: user => user.email },
+  { header: 'USERNAME', value: user => user.username },
+  { header: 'NAME', value: user => user.displayName },
+  { header: 'ROLE', value: user => user.role },
+  { header: 'ACTIVE', value: user => (user.isActive ? 'yes' : 'no') },
+];
+
+/** Product table columns */
+export const productColumns: Column<Product>[] = [
+  { header: 'ID', value: product => product.id },
+  { header: 'SKU', value: product => product.sku },
+  { header: 'NAME', value: product => product.name },
+  { header: 'CATEGORY', value: product => product.category },
+  { header: 'PRICE', value: product => formatPrice(product.price) },
+  { header: 'STOCK', value: product => String(product.stockQuantity) },
+  { header: 'ACTIVE', value: product => (product.isActive ? 'yes' : 'no') },
+];
+
+/** Renders rows as a left-aligned text table */
+export function formatTable<T>(rows: T[], columns: Column<T>[]): string {
+  if (rows.length === 0) {
+    return '(no results)';
+  }
+
+  const cells = rows.map(row => columns.map(column => column.value(row)));
+  const widths = columns.map((column, i) =>
+    Math.max(column.header.length, ...cells.map(line => (line[i] ?? '').length))
+  );
+  const formatLine = (line: string[]): string =>
+    line.map((cell, i) => cell.padEnd(widths[i] ?? 0)).join('  ').trimEnd();
+
+  return [formatLine(columns.map(column => column.header)), ...cells.map(formatLine)].join('\n');
+}
+
+/** Renders a value as pretty-printed JSON */
+export function formatJson(value: unknown): string {
+  return JSON.stringify(toJsonValue(value), null, 2);
+}
@@ -0,0 +1,129 @@
+/**
+ * Runs admin CLI commands and maps their results onto exit codes.
+ *
+ * Test scenarios:
+ * - "Find References" on runCommand shows the entry point and the script runner
+ * - Rename ExitCode and see the entry point update
+ * - "Go to Definition" on toAppError from a failed command
+ */
+
+import type { AppError } from '../core/errors.js';
+import { ValidationError, toAppError } from '../core/errors.js';
+import type { AppConfig } from '../app/application.js';
+import { createApplication } from '../app/application.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
+import { parseArgs, tokenize } from './args.js';
+import type { CliCommand, CliServices } from './commands.js';
+import { commands, findCommand, formatUsage } from './commands.js';
+import type { OutputFormat } from './output.js';
+import { formatJson } from './output.js';
+
+/** Process exit codes */
+export enum ExitCode {
+  Success = 0,
+  /** The operation itself failed (not found, forbidden, conflict, ...) */
+  Failure = 1,
+  /** The command line was invalid */
+  Usage = 2,
+}
+
+/** Where the CLI writes its output */
+export interface CliIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+/** Writes to the process streams */
+export const processIo: CliIo = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+};
+
+/** Creates the services of one tenant, wired from configuration (in-memory repositories by default) */
+export function createCliServices(config: AppConfig = {}, tenantId: string = DEFAULT_TENANT_ID): CliServices {
+  const { services, repositories } = createApplication(config).forTenant(tenantId);
+  return { ...services, repositories };
+}
+
+/** Exit code for a failed command */
+function exitCodeFor(error: AppError): ExitCode {
+  return error.code === 'BAD_REQUEST' || error.code === 'VALIDATION_FAILED'
+    ? ExitCode.Usage
+    : ExitCode.Failure;
+}
+
+/** Reports an error, with field errors in JSON mode or one per line otherwise */
+function reportError(error: AppError, format: OutputFormat, io: CliIo): void {
+  const errors = error instanceof ValidationError ? error.errors : [];
+  if (format === 'json') {
+    io.stderr(formatJson({ code: error.code, message: error.message, ...(errors.length > 0 && { errors }) }));
+    return;
+  }
+  io.stderr(`Error [${error.code}]: ${error.message}`);
+  for (const fieldError of errors) {
+    io.stderr(`  ${fieldError.field}: ${fieldError.message}`);
+  }
+}
+
+/** Runs one command line (`<group> <command> [arguments]`) and returns its exit code */
+export async function runCommand(
+  argv: string[],
+  services: CliServices,
+  io: CliIo = processIo,
+  commandTable: CliCommand[] = commands
+): Promise<ExitCode> {
+  let format: OutputFormat = 'table';
+  try {
+    const args = parseArgs(argv);
+    format = args.flags.has('json') ? 'json' : 'table';
+
+    const [group, name] = args.positionals;
+    if (args.flags.has('help') || group === 'help') {
+      io.stdout(formatUsage(commandTable));
+      return ExitCode.Success;
+    }
+
+    const command = group && name ? findCommand(commandTable, group, name) : undefined;
+    if (!command) {
+      io.stderr(`Unknown command: ${args.positionals.slice(0, 2).join(' ') || '(none)'}`);
+      io.stderr(formatUsage(commandTable));
+      return ExitCode.Usage;
+    }
+
+    const result = await command.run({ ...args, positionals: args.positionals.slice(2) }, services);
+    if (!result.success || !result.data) {
+      const error = toAppError(result.error);
+      reportError(error, format, io);
+      return exitCodeFor(error);
+    }
+
+    io.stdout(format === 'json' ? formatJson(result.data.data) : result.data.table);
+    return ExitCode.Success;
+  } catch (error) {
+    const appError = toAppError(error);
+    reportError(appError, format, io);
+    return exitCodeFor(appError);
+  }
+}
+
+/**
+ * Runs one command per line against the same services, so a session can
+ * create data and then query it. Blank lines and `#` comments are skipped.
+ * Returns the highest exit code of any command.
+ */
+export async function runScript(
+  lines: AsyncIterable<string> | Iterable<string>,
+  services: CliServices,
+  io: CliIo = processIo,
+  commandTable: CliCommand[] = commands
+): Promise<ExitCode> {
+  let exitCode = ExitCode.Success;
+  for await (const line of lines) {
+    const argv = tokenize(line);
+    if (argv.length === 0 || argv[0]?.startsWith('#')) {
+      continue;
+    }
+    exitCode = Math.max(exitCode, await runCommand(argv, services, io, commandTable));
+  }
+  return exitCode;
+}
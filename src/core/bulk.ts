@@ -0,0 +1,141 @@
+/**
+ * Bulk operation runner with partial-failure and all-or-nothing modes.
+ *
+ * Test scenarios:
+ * - "Find References" on executeBulk shows the bulk service methods
+ * - Rename BulkReport and see services and handlers update
+ * - "Go to Definition" on AppError from a bulk item result
+ */
+
+import type { OperationResult } from './types.js';
+import type { AppError } from './errors.js';
+import { ConflictError, InternalError, toAppError } from './errors.js';
+
+/** Outcome of a single item in a bulk operation */
+export type BulkItemStatus = 'succeeded' | 'failed' | 'rolledBack' | 'skipped';
+
+/** Result for one item of a bulk operation */
+export interface BulkItemResult<T> {
+  /** Position of the item in the request */
+  index: number;
+  status: BulkItemStatus;
+  data?: T;
+  error?: AppError;
+}
+
+/** Per-item report of a bulk operation */
+export interface BulkReport<T> {
+  atomic: boolean;
+  /** False when an atomic operation was rolled back */
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult<T>[];
+}
+
+/** Options for bulk operations */
+export interface BulkOptions {
+  /** Roll back every applied item if any item fails */
+  atomic?: boolean;
+}
+
+/** A single applied step with an optional compensating action */
+export interface BulkStep<T> {
+  result: OperationResult<T>;
+  /** Reverts the step; used to roll back atomic operations */
+  undo?: () => Promise<void>;
+}
+
+/** Largest number of items accepted by a bulk operation */
+export const MAX_BULK_ITEMS = 1000;
+
+/** Builds a report from item results */
+export function createBulkReport<T>(
+  results: BulkItemResult<T>[],
+  atomic: boolean,
+  committed: boolean
+): BulkReport<T> {
+  return {
+    atomic,
+    committed,
+    succeeded: results.filter(r => r.status === 'succeeded').length,
+    failed: results.filter(r => r.status !== 'succeeded').length,
+    results,
+  };
+}
+
+/**
+ * Applies an operation to each item in order.
+ * In partial mode every item is attempted and failures are reported per item.
+ * In atomic mode the first failure stops the run and applied items are undone
+ * in reverse order.
+ */
+export async function executeBulk<I, T>(
+  items: I[],
+  apply: (item: I, index: number) => Promise<BulkStep<T>>,
+  options: BulkOptions = {}
+): Promise<BulkReport<T>> {
+  const atomic = options.atomic ?? false;
+  const results: BulkItemResult<T>[] = [];
+  const applied: BulkStep<T>[] = [];
+
+  for (let index = 0; index < items.length; index++) {
+    let step: BulkStep<T>;
+    try {
+      step = await apply(items[index] as I, index);
+    } catch (error) {
+      step = { result: { success: false, error: toAppError(error) } };
+    }
+
+    if (step.result.success) {
+      results.push({ index, status: 'succeeded', data: step.result.data });
+      applied.push(step);
+      continue;
+    }
+
+    results.push({
+      index,
+      status: 'failed',
+      error: step.result.error ?? new InternalError(),
+    });
+
+    if (atomic) {
+      await rollback(applied);
+      return createBulkReport(markAborted(results, items.length, index), true, false);
+    }
+  }
+
+  return createBulkReport(results, atomic, true);
+}
+
+/** Undoes applied steps in reverse order */
+async function rollback<T>(applied: BulkStep<T>[]): Promise<void> {
+  for (const step of [...applied].reverse()) {
+    await step.undo?.();
+  }
+}
+
+/** Marks applied items as rolled back and the remaining items as skipped */
+function markAborted<T>(
+  results: BulkItemResult<T>[],
+  total: number,
+  failedIndex: number
+): BulkItemResult<T>[] {
+  const aborted: BulkItemResult<T>[] = results.map(result =>
+    result.status === 'succeeded'
+      ? {
+          index: result.index,
+          status: 'rolledBack',
+          error: new ConflictError(`Rolled back because item ${failedIndex} failed`),
+        }
+      : result
+  );
+  for (let index = failedIndex + 1; index < total; index++) {
+    aborted.push({
+      index,
+      status: 'skipped',
+      error: new ConflictError(`Skipped because item ${failedIndex} failed`),
+    });
+  }
+  return aborted;
+}
@@ -0,0 +1,239 @@
+/**
+ * Caching - an LRU cache with per-entry TTL, and a read-through repository
+ * decorator invalidated by writes and entity events.
+ *
+ * Test scenarios:
+ * - "Go to Implementation" on Cache shows LruCache
+ * - "Find Implementations" on Repository shows CachedRepository
+ * - Rename invalidateOnEvent and see the composition root update
+ */
+
+import type { Entity, EntityEvent, OperationResult, Repository } from './types.js';
+import type { Predicate, Query, StreamOptions } from './query.js';
+import type { Clock } from './clock.js';
+import { getClock } from './clock.js';
+
+/** Key-value cache */
+export interface Cache<T> {
+  get(key: string): T | undefined;
+  /** Stores a value for `ttl` milliseconds (the cache's default when omitted) */
+  set(key: string, value: T, ttl?: number): void;
+  has(key: string): boolean;
+  delete(key: string): boolean;
+  clear(): void;
+}
+
+/** Hit and miss counts of a cache */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Entries dropped to stay within maxEntries */
+  evictions: number;
+  size: number;
+}
+
+/** Options for LruCache */
+export interface LruCacheOptions {
+  /** Entries kept before the least recently used is evicted (defaults to 1000) */
+  maxEntries?: number;
+  /** Lifetime of an entry in milliseconds (defaults to one minute) */
+  ttlMs?: number;
+  /** Clock for expiry (defaults to getClock()) */
+  clock?: Clock;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Cache evicting the least recently used entry once full.
+ * Expired entries are dropped when read.
+ */
+export class LruCache<T> implements Cache<T> {
+  /** Entries in recency order, least recently used first */
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private readonly options: LruCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttlMs = options.ttlMs ?? 60_000;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.live(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttl: number = this.ttlMs): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttl });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /** Whether a live entry exists; does not count as a hit or refresh recency */
+  has(key: string): boolean {
+    return this.live(key) !== undefined;
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, evictions: this.evictions, size: this.entries.size };
+  }
+
+  /** The unexpired entry for a key, dropping an expired one */
+  private live(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private now(): number {
+    return (this.options.clock ?? getClock()).now().getTime();
+  }
+}
+
+/**
+ * Repository decorator caching reads: entities by id, and the results of
+ * finds and counts by query. A save or delete drops the entity and every
+ * cached result, since any of them may have changed; so does a change
+ * event passed to `invalidateOnEvent`, for writes made around this
+ * repository. Streams are not cached.
+ */
+export class CachedRepository<T extends Entity> implements Repository<T> {
+  private readonly entities: LruCache<T>;
+  private readonly results: LruCache<T[]>;
+  private readonly counts: LruCache<number>;
+  /** Bumped by every invalidation, so reads that raced a write are not cached */
+  private generation = 0;
+
+  constructor(
+    private readonly inner: Repository<T>,
+    options: LruCacheOptions = {}
+  ) {
+    this.entities = new LruCache(options);
+    this.results = new LruCache(options);
+    this.counts = new LruCache(options);
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const cached = this.entities.get(id);
+    if (cached) {
+      return cached;
+    }
+    const generation = this.generation;
+    const entity = await this.inner.findById(id);
+    if (entity && generation === this.generation) {
+      this.entities.set(id, entity);
+    }
+    return entity;
+  }
+
+  async findAll(): Promise<T[]> {
+    return [...(await this.readThrough(this.results, 'findAll', () => this.inner.findAll()))];
+  }
+
+  /** Results are cached by the query's JSON form; callers get a copy of the cached list */
+  async find(query: Query<T> = {}): Promise<T[]> {
+    return [...(await this.readThrough(this.results, JSON.stringify(query), () => this.inner.find(query)))];
+  }
+
+  count(where?: Predicate<T>): Promise<number> {
+    return this.readThrough(this.counts, JSON.stringify(where ?? null), () => this.inner.count(where));
+  }
+
+  stream(options?: StreamOptions<T>): AsyncIterable<T> {
+    return this.inner.stream(options);
+  }
+
+  async save(entity: T): Promise<OperationResult<T>> {
+    try {
+      return await this.inner.save(entity);
+    } finally {
+      this.invalidate(entity.id);
+    }
+  }
+
+  async delete(id: string): Promise<OperationResult<void>> {
+    try {
+      return await this.inner.delete(id);
+    } finally {
+      this.invalidate(id);
+    }
+  }
+
+  /** Drops a cached entity and every cached result */
+  invalidate(id: string): void {
+    this.generation++;
+    this.entities.delete(id);
+    this.results.clear();
+    this.counts.clear();
+  }
+
+  /** Drops everything cached */
+  invalidateAll(): void {
+    this.generation++;
+    this.entities.clear();
+    this.results.clear();
+    this.counts.clear();
+  }
+
+  /** Event handler invalidating the entity of every change event; subscribe it with a service's onEvent */
+  readonly invalidateOnEvent = (event: EntityEvent<T>): void => {
+    if (event.type !== 'read') {
+      this.invalidate(event.entity.id);
+    }
+  };
+
+  /** Combined statistics of the entity and result caches */
+  stats(): CacheStats {
+    return [this.entities.stats(), this.results.stats(), this.counts.stats()].reduce((total, stats) => ({
+      hits: total.hits + stats.hits,
+      misses: total.misses + stats.misses,
+      evictions: total.evictions + stats.evictions,
+      size: total.size + stats.size,
+    }));
+  }
+
+  /** Returns the cached value for a key, or reads and caches it */
+  private async readThrough<V>(cache: LruCache<V>, key: string, read: () => Promise<V>): Promise<V> {
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const generation = this.generation;
+    const value = await read();
+    if (generation === this.generation) {
+      cache.set(key, value);
+    }
+    return value;
+  }
+}
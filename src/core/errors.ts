@@ -0,0 +1,148 @@
+/**
+ * Typed application errors carried through OperationResult and ApiResponse.
+ * Each error has a stable machine-readable code and an HTTP status.
+ *
+ * Test scenarios:
+ * - "Find Implementations" on AppError shows every error type
+ * - "Find References" on NotFoundError shows repositories and services
+ * - Rename ErrorCode and see handlers and transports update
+ */
+
+/** HTTP status codes */
+export enum HttpStatus {
+  OK = 200,
+  Created = 201,
+  NoContent = 204,
+  BadRequest = 400,
+  Unauthorized = 401,
+  Forbidden = 403,
+  NotFound = 404,
+  MethodNotAllowed = 405,
+  Conflict = 409,
+  PayloadTooLarge = 413,
+  InternalServerError = 500,
+}
+
+/** Stable machine-readable error codes */
+export type ErrorCode =
+  | 'BAD_REQUEST'
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'INTERNAL';
+
+/** A validation error for a single field */
+export interface FieldError {
+  field: string;
+  code: string;
+  message: string;
+  /** Values used to translate the message, e.g. `{ max: 100 }` (see core/i18n.ts) */
+  params?: Record<string, string | number>;
+}
+
+/** HTTP status for each error code */
+const HTTP_STATUS_BY_CODE: Record<ErrorCode, HttpStatus> = {
+  BAD_REQUEST: HttpStatus.BadRequest,
+  VALIDATION_FAILED: HttpStatus.BadRequest,
+  UNAUTHENTICATED: HttpStatus.Unauthorized,
+  FORBIDDEN: HttpStatus.Forbidden,
+  NOT_FOUND: HttpStatus.NotFound,
+  METHOD_NOT_ALLOWED: HttpStatus.MethodNotAllowed,
+  CONFLICT: HttpStatus.Conflict,
+  PAYLOAD_TOO_LARGE: HttpStatus.PayloadTooLarge,
+  INTERNAL: HttpStatus.InternalServerError,
+};
+
+/** Maps an error code to its HTTP status */
+export function httpStatusForCode(code: ErrorCode): HttpStatus {
+  return HTTP_STATUS_BY_CODE[code];
+}
+
+/** Base class for all application errors */
+export abstract class AppError extends Error {
+  abstract readonly code: ErrorCode;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /** HTTP status for this error */
+  get httpStatus(): HttpStatus {
+    return httpStatusForCode(this.code);
+  }
+}
+
+/** The request is malformed (e.g. unparseable body) */
+export class BadRequestError extends AppError {
+  readonly code = 'BAD_REQUEST';
+}
+
+/** The input failed validation */
+export class ValidationError extends AppError {
+  readonly code = 'VALIDATION_FAILED';
+
+  constructor(readonly errors: FieldError[], message: string = 'Validation failed') {
+    super(message);
+  }
+}
+
+/** The caller is not authenticated */
+export class UnauthenticatedError extends AppError {
+  readonly code = 'UNAUTHENTICATED';
+
+  constructor(message: string = 'Authentication required') {
+    super(message);
+  }
+}
+
+/** The caller is not allowed to perform the operation */
+export class ForbiddenError extends AppError {
+  readonly code = 'FORBIDDEN';
+}
+
+/** The requested entity does not exist */
+export class NotFoundError extends AppError {
+  readonly code = 'NOT_FOUND';
+
+  /** Creates a not-found error for an entity id */
+  static forEntity(entityName: string, id: string): NotFoundError {
+    return new NotFoundError(`${entityName} with id ${id} not found`);
+  }
+}
+
+/** The HTTP method is not supported for the path */
+export class MethodNotAllowedError extends AppError {
+  readonly code = 'METHOD_NOT_ALLOWED';
+}
+
+/** The operation conflicts with the current state */
+export class ConflictError extends AppError {
+  readonly code = 'CONFLICT';
+}
+
+/** The request body is larger than the server accepts */
+export class PayloadTooLargeError extends AppError {
+  readonly code = 'PAYLOAD_TOO_LARGE';
+}
+
+/** An unexpected failure */
+export class InternalError extends AppError {
+  readonly code = 'INTERNAL';
+
+  constructor(message: string = 'Internal error') {
+    super(message);
+  }
+}
+
+/** Converts an unknown thrown value into an AppError */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  return new InternalError();
+}
@@ -0,0 +1,142 @@
+/**
+ * File-backed flag source - loads flag definitions from a JSON file and
+ * reloads them when the file changes or is replaced.
+ *
+ * Test scenarios:
+ * - "Find References" on FileFlagSource shows the composition root
+ * - "Go to Definition" on update navigates to core/flags.ts
+ * - Rename FlagFile and see the parser update
+ */
+
+import { readFile } from 'node:fs/promises';
+import { watch } from 'node:fs';
+import type { FSWatcher } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import type { FlagDefinition, FlagRegistry } from './flags.js';
+import { ValidationError } from './errors.js';
+import type { Logger } from './logger.js';
+import { silentLogger } from './logger.js';
+
+/** Contents of a flag file */
+export interface FlagFile {
+  flags: FlagDefinition[];
+}
+
+/** Options for FileFlagSource */
+export interface FileFlagSourceOptions {
+  /** Delay before reloading, so a burst of change events reloads once (defaults to 100ms) */
+  debounceMs?: number;
+  logger?: Logger;
+}
+
+/**
+ * Parses the text of a flag file; throws a ValidationError for an unexpected
+ * shape. The definitions themselves are checked when given to the registry.
+ */
+export function parseFlagFile(text: string): FlagFile {
+  const parsed: unknown = JSON.parse(text);
+  const flags: unknown =
+    typeof parsed === 'object' && parsed !== null ? (parsed as Partial<FlagFile>).flags : undefined;
+  if (!Array.isArray(flags)) {
+    throw new ValidationError([
+      { field: 'flags', code: 'REQUIRED', message: 'A flag file must have a "flags" array' },
+    ]);
+  }
+  const invalid = flags.findIndex(
+    (flag: unknown) => typeof flag !== 'object' || flag === null || Array.isArray(flag)
+  );
+  if (invalid >= 0) {
+    throw new ValidationError([
+      { field: `flags[${invalid}]`, code: 'INVALID_TYPE', message: 'A flag definition must be an object' },
+    ]);
+  }
+  return parsed as FlagFile;
+}
+
+/**
+ * Keeps a registry in sync with a JSON flag file. Flags registered by other
+ * means are left alone unless the file defines the same key.
+ * A file that fails to parse or validate is logged and ignored, so the
+ * previously loaded flags stay in effect.
+ */
+export class FileFlagSource {
+  private watcher: FSWatcher | null = null;
+  /** Keys loaded from the file last time, removed if the file drops them */
+  private loadedKeys: string[] = [];
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly debounceMs: number;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly registry: FlagRegistry,
+    options: FileFlagSourceOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 100;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /** Loads the file into the registry; throws if it cannot be read or is invalid */
+  async load(): Promise<void> {
+    const file = parseFlagFile(await readFile(this.filePath, 'utf8'));
+    this.registry.update(file.flags, this.loadedKeys);
+    this.loadedKeys = file.flags.map(flag => flag.key);
+    this.logger.info('Feature flags loaded', { filePath: this.filePath, count: file.flags.length });
+  }
+
+  /** Reloads the file, logging instead of throwing on failure */
+  async reload(): Promise<boolean> {
+    try {
+      await this.load();
+      return true;
+    } catch (error) {
+      this.logger.error('Feature flag reload failed; keeping previous flags', {
+        filePath: this.filePath,
+        error,
+        errors: error instanceof ValidationError ? error.errors : undefined,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Starts reloading the file whenever it changes. The directory is watched
+   * rather than the file, since editors and deploy tools often replace the
+   * file by renaming another over it, which would orphan a file watcher.
+   */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+    const fileName = basename(this.filePath);
+    this.watcher = watch(dirname(this.filePath), (_event, changed) => {
+      // Some platforms do not report the name; reload to be safe
+      if (changed === null || changed === fileName) {
+        this.scheduleReload();
+      }
+    });
+    this.watcher.on('error', error => {
+      this.logger.error('Feature flag watcher failed', { filePath: this.filePath, error });
+    });
+  }
+
+  /** Stops watching the file */
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      void this.reload();
+    }, this.debounceMs);
+  }
+}
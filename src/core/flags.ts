@@ -0,0 +1,431 @@
+/**
+ * Feature flags - boolean and multivariate flags with targeting rules and
+ * deterministic percentage rollouts.
+ *
+ * Test scenarios:
+ * - "Find References" on FlagRegistry shows the composition root and the file source
+ * - "Go to Definition" on FlagSubject from the API flag evaluator
+ * - Rename evaluate and see isEnabled and getValue update
+ */
+
+import type { FieldError } from './errors.js';
+import { ValidationError } from './errors.js';
+
+/** Value served by a flag variant */
+export type FlagValue = boolean | string | number;
+
+/** Attributes a flag is evaluated against, usually taken from the calling user */
+export interface FlagSubject {
+  userId?: string;
+  role?: string;
+  email?: string;
+  tenantId?: string;
+}
+
+/** Subject attributes rules can match on; `emailDomain` is derived from `email` */
+export type FlagAttribute = 'userId' | 'role' | 'emailDomain' | 'tenantId';
+
+/** Matches when the attribute is (or, for `notIn`, is not) one of the values */
+export interface FlagCondition {
+  attribute: FlagAttribute;
+  operator: 'in' | 'notIn';
+  values: string[];
+}
+
+/** Share of subjects served a variant, in percent */
+export interface RolloutWeight {
+  variant: string;
+  weight: number;
+}
+
+/**
+ * A targeting rule. When every condition matches, the rule serves its
+ * variant, or a rollout between variants.
+ */
+export interface FlagRule {
+  conditions: FlagCondition[];
+  variant?: string;
+  rollout?: RolloutWeight[];
+}
+
+/** A flag definition, as registered or loaded from a flag file */
+export interface FlagDefinition {
+  key: string;
+  description?: string;
+  /** Values by variant name; boolean flags use `on` and `off` */
+  variants: Record<string, FlagValue>;
+  /** Variant served when no rule or rollout applies */
+  defaultVariant: string;
+  /** A disabled flag always serves its default variant (defaults to true) */
+  enabled?: boolean;
+  /** Rules checked in order; the first matching rule wins */
+  rules?: FlagRule[];
+  /** Rollout for subjects no rule matched */
+  rollout?: RolloutWeight[];
+}
+
+/** Why a flag evaluated to its value */
+export type FlagReason = 'DISABLED' | 'RULE_MATCH' | 'ROLLOUT' | 'DEFAULT' | 'FLAG_NOT_FOUND';
+
+/** Result of evaluating a flag */
+export interface FlagEvaluation {
+  key: string;
+  value: FlagValue | undefined;
+  variant: string | undefined;
+  reason: FlagReason;
+  /** Index of the matching rule, for `RULE_MATCH` and rule rollouts */
+  ruleIndex?: number;
+}
+
+/** Called after the set of flags changes */
+export type FlagChangeListener = (keys: string[]) => void;
+
+/** Defines a boolean flag with `on`/`off` variants */
+export function booleanFlag(
+  key: string,
+  options: Omit<FlagDefinition, 'key' | 'variants' | 'defaultVariant'> & { defaultValue?: boolean } = {}
+): FlagDefinition {
+  const { defaultValue = false, ...rest } = options;
+  return {
+    key,
+    variants: { on: true, off: false },
+    defaultVariant: defaultValue ? 'on' : 'off',
+    ...rest,
+  };
+}
+
+/**
+ * Deterministic bucket in [0, 100) for a subject and flag.
+ * Uses 32-bit FNV-1a so the same user always lands in the same bucket,
+ * while different flags bucket users independently.
+ */
+export function rolloutBucket(flagKey: string, userId: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `${flagKey}:${userId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash % 10000) / 100;
+}
+
+/** Value of a rule attribute for a subject */
+function attributeOf(subject: FlagSubject, attribute: FlagAttribute): string | undefined {
+  if (attribute === 'emailDomain') {
+    const at = subject.email?.lastIndexOf('@') ?? -1;
+    return at >= 0 ? subject.email?.slice(at + 1).toLowerCase() : undefined;
+  }
+  return subject[attribute];
+}
+
+/** Whether a subject satisfies a condition; a missing attribute never matches `in` */
+function matchesCondition(subject: FlagSubject, condition: FlagCondition): boolean {
+  const value = attributeOf(subject, condition.attribute);
+  const listed = value !== undefined && condition.values.includes(value);
+  return condition.operator === 'in' ? listed : !listed;
+}
+
+/** Picks a rollout variant for a subject; subjects without a user id are not rolled out */
+function pickRolloutVariant(
+  flagKey: string,
+  rollout: RolloutWeight[],
+  subject: FlagSubject
+): string | undefined {
+  if (subject.userId === undefined) {
+    return undefined;
+  }
+  const bucket = rolloutBucket(flagKey, subject.userId);
+  let cumulative = 0;
+  for (const { variant, weight } of rollout) {
+    cumulative += weight;
+    if (bucket < cumulative) {
+      return variant;
+    }
+  }
+  return undefined;
+}
+
+/** Attributes a condition may name */
+const FLAG_ATTRIBUTES: readonly FlagAttribute[] = ['userId', 'role', 'emailDomain', 'tenantId'];
+
+/** Operators a condition may use */
+const FLAG_OPERATORS: readonly FlagCondition['operator'][] = ['in', 'notIn'];
+
+/** Whether a value is a plain JSON object */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a flag definition, returning one error per problem.
+ * Definitions read from flag files are untyped JSON, so every part is
+ * checked for its shape as well as its meaning.
+ */
+export function validateFlagDefinition(definition: FlagDefinition): FieldError[] {
+  if (!isRecord(definition)) {
+    return [{ field: 'flags', code: 'INVALID_TYPE', message: 'A flag definition must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  const field = (name: string): string => `${definition.key}.${name}`;
+  const invalidType = (name: string, message: string): void => {
+    errors.push({ field: field(name), code: 'INVALID_TYPE', message });
+  };
+  const variants = new Set(isRecord(definition.variants) ? Object.keys(definition.variants) : []);
+
+  if (typeof definition.key !== 'string' || !/^[a-zA-Z][\w.-]*$/.test(definition.key)) {
+    errors.push({
+      field: 'key',
+      code: 'INVALID_FORMAT',
+      message: `Invalid flag key: ${String(definition.key)}`,
+    });
+  }
+  if (definition.variants !== undefined && !isRecord(definition.variants)) {
+    invalidType('variants', 'Variants must be an object');
+  } else if (variants.size === 0) {
+    errors.push({ field: field('variants'), code: 'REQUIRED', message: 'A flag needs at least one variant' });
+  } else {
+    for (const [name, value] of Object.entries(definition.variants)) {
+      if (!['boolean', 'string', 'number'].includes(typeof value)) {
+        invalidType(`variants.${name}`, 'A variant value must be a boolean, string or number');
+      }
+    }
+  }
+  if (!variants.has(definition.defaultVariant)) {
+    errors.push({
+      field: field('defaultVariant'),
+      code: 'INVALID_VALUE',
+      message: `Unknown default variant: ${definition.defaultVariant}`,
+    });
+  }
+  if (definition.enabled !== undefined && typeof definition.enabled !== 'boolean') {
+    invalidType('enabled', 'Enabled must be a boolean');
+  }
+
+  const checkRollout = (rollout: unknown, name: string): void => {
+    if (!Array.isArray(rollout)) {
+      invalidType(name, 'A rollout must be an array');
+      return;
+    }
+    let total = 0;
+    rollout.forEach((entry: unknown, index) => {
+      const entryName = `${name}[${index}]`;
+      if (!isRecord(entry)) {
+        invalidType(entryName, 'A rollout weight must be an object');
+        return;
+      }
+      const { variant, weight } = entry;
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        errors.push({
+          field: field(`${entryName}.weight`),
+          code: 'OUT_OF_RANGE',
+          message: 'A rollout weight must be a number from 0 to 100',
+        });
+      } else {
+        total += weight;
+      }
+      if (typeof variant !== 'string' || !variants.has(variant)) {
+        errors.push({
+          field: field(`${entryName}.variant`),
+          code: 'INVALID_VALUE',
+          message: `Unknown rollout variant: ${String(variant)}`,
+        });
+      }
+    });
+    if (total > 100) {
+      errors.push({
+        field: field(name),
+        code: 'OUT_OF_RANGE',
+        message: 'Rollout weights must be 0-100 in total',
+      });
+    }
+  };
+
+  const checkCondition = (condition: unknown, name: string): void => {
+    if (!isRecord(condition)) {
+      invalidType(name, 'A condition must be an object');
+      return;
+    }
+    const { attribute, operator, values } = condition;
+    if (!FLAG_ATTRIBUTES.includes(attribute as FlagAttribute)) {
+      errors.push({
+        field: field(`${name}.attribute`),
+        code: 'INVALID_VALUE',
+        message: `Unknown condition attribute: ${String(attribute)}`,
+      });
+    }
+    if (!FLAG_OPERATORS.includes(operator as FlagCondition['operator'])) {
+      errors.push({
+        field: field(`${name}.operator`),
+        code: 'INVALID_VALUE',
+        message: `Unknown condition operator: ${String(operator)}`,
+      });
+    }
+    if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+      invalidType(`${name}.values`, 'Condition values must be an array of strings');
+    }
+  };
+
+  if (definition.rules !== undefined && !Array.isArray(definition.rules)) {
+    invalidType('rules', 'Rules must be an array');
+  } else {
+    definition.rules?.forEach((rule: unknown, index) => {
+      const name = `rules[${index}]`;
+      if (!isRecord(rule)) {
+        invalidType(name, 'A rule must be an object');
+        return;
+      }
+      if (Array.isArray(rule.conditions)) {
+        rule.conditions.forEach((condition: unknown, conditionIndex) =>
+          checkCondition(condition, `${name}.conditions[${conditionIndex}]`)
+        );
+      } else {
+        invalidType(`${name}.conditions`, 'Rule conditions must be an array');
+      }
+      if (rule.variant === undefined && rule.rollout === undefined) {
+        errors.push({ field: field(name), code: 'REQUIRED', message: 'A rule needs a variant or a rollout' });
+      }
+      if (rule.variant !== undefined && (typeof rule.variant !== 'string' || !variants.has(rule.variant))) {
+        errors.push({
+          field: field(name),
+          code: 'INVALID_VALUE',
+          message: `Unknown rule variant: ${String(rule.variant)}`,
+        });
+      }
+      if (rule.rollout !== undefined) {
+        checkRollout(rule.rollout, `${name}.rollout`);
+      }
+    });
+  }
+  if (definition.rollout !== undefined) {
+    checkRollout(definition.rollout, 'rollout');
+  }
+  return errors;
+}
+
+/** Holds flag definitions and evaluates them for subjects */
+export class FlagRegistry {
+  private flags: Map<string, FlagDefinition> = new Map();
+  private listeners: FlagChangeListener[] = [];
+
+  constructor(definitions: FlagDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /** Adds or replaces a flag; throws a ValidationError for an invalid definition */
+  register(definition: FlagDefinition): void {
+    const errors = validateFlagDefinition(definition);
+    if (errors.length > 0) {
+      throw new ValidationError(errors, `Invalid flag ${definition.key}`);
+    }
+    this.flags.set(definition.key, definition);
+    this.notify([definition.key]);
+  }
+
+  /**
+   * Registers many flags and removes the given keys (other than those
+   * registered) in one step. Nothing changes if any definition is invalid,
+   * so a bad reload keeps the previous flags.
+   */
+  update(definitions: FlagDefinition[], removedKeys: string[] = []): void {
+    const errors = definitions.flatMap(validateFlagDefinition);
+    const keys = definitions.map(definition => definition.key);
+    const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+    if (duplicate !== undefined) {
+      errors.push({ field: 'key', code: 'INVALID_VALUE', message: `Duplicate flag key: ${duplicate}` });
+    }
+    if (errors.length > 0) {
+      throw new ValidationError(errors, 'Invalid flag definitions');
+    }
+
+    removedKeys.forEach(key => this.flags.delete(key));
+    definitions.forEach(definition => this.flags.set(definition.key, definition));
+    this.notify(Array.from(new Set([...removedKeys, ...keys])));
+  }
+
+  /** Replaces every flag at once */
+  replaceAll(definitions: FlagDefinition[]): void {
+    this.update(definitions, this.keys());
+  }
+
+  /** Gets a flag definition */
+  get(key: string): FlagDefinition | undefined {
+    return this.flags.get(key);
+  }
+
+  /** Keys of all registered flags */
+  keys(): string[] {
+    return Array.from(this.flags.keys());
+  }
+
+  /** Subscribes to flag changes; returns a function that unsubscribes */
+  onChange(listener: FlagChangeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /** Evaluates a flag for a subject */
+  evaluate(key: string, subject: FlagSubject = {}): FlagEvaluation {
+    const flag = this.flags.get(key);
+    if (!flag) {
+      return { key, value: undefined, variant: undefined, reason: 'FLAG_NOT_FOUND' };
+    }
+    const serve = (variant: string, reason: FlagReason, ruleIndex?: number): FlagEvaluation => ({
+      key,
+      value: flag.variants[variant],
+      variant,
+      reason,
+      ...(ruleIndex !== undefined && { ruleIndex }),
+    });
+
+    if (flag.enabled === false) {
+      return serve(flag.defaultVariant, 'DISABLED');
+    }
+
+    const rules = flag.rules ?? [];
+    for (const [index, rule] of rules.entries()) {
+      if (!rule.conditions.every(condition => matchesCondition(subject, condition))) {
+        continue;
+      }
+      const variant = rule.rollout ? pickRolloutVariant(key, rule.rollout, subject) : rule.variant;
+      if (variant !== undefined) {
+        return serve(variant, rule.rollout ? 'ROLLOUT' : 'RULE_MATCH', index);
+      }
+      // A rule rollout the subject fell outside of falls through to later rules
+    }
+
+    const variant = flag.rollout && pickRolloutVariant(key, flag.rollout, subject);
+    if (variant !== undefined) {
+      return serve(variant, 'ROLLOUT');
+    }
+    return serve(flag.defaultVariant, 'DEFAULT');
+  }
+
+  /** Whether a boolean flag is on; unknown and non-boolean flags give the fallback */
+  isEnabled(key: string, subject: FlagSubject = {}, fallback: boolean = false): boolean {
+    const { value } = this.evaluate(key, subject);
+    return typeof value === 'boolean' ? value : fallback;
+  }
+
+  /** Value of a flag, or the fallback when the flag is unknown or of another type */
+  getValue<V extends FlagValue>(key: string, subject: FlagSubject, fallback: V): V {
+    const { value } = this.evaluate(key, subject);
+    return typeof value === typeof fallback ? (value as V) : fallback;
+  }
+
+  /** Evaluates every flag for a subject */
+  evaluateAll(subject: FlagSubject = {}): Record<string, FlagValue> {
+    const values: Record<string, FlagValue> = {};
+    for (const key of this.flags.keys()) {
+      const { value } = this.evaluate(key, subject);
+      if (value !== undefined) {
+        values[key] = value;
+      }
+    }
+    return values;
+  }
+
+  private notify(keys: string[]): void {
+    this.listeners.forEach(listener => listener(keys));
+  }
+}
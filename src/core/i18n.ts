@@ -0,0 +1,246 @@
+/**
+ * Internationalization - locale negotiation, message catalogs keyed by
+ * error code, and Intl-based date and currency formatting.
+ *
+ * Test scenarios:
+ * - "Find References" on negotiateLocale shows the server
+ * - "Find References" on localizeFieldErrors shows the handlers
+ * - Rename MessageCatalog and see every catalog update
+ */
+
+import type { FieldError } from './errors.js';
+
+/** Supported locales */
+export const SUPPORTED_LOCALES = ['en-US', 'en-GB', 'es-ES', 'fr-FR', 'de-DE'] as const;
+
+/** A supported locale */
+export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number];
+
+/** Locale used when negotiation finds no supported match */
+export const DEFAULT_LOCALE: SupportedLocale = 'en-US';
+
+/** Values substituted into `{name}` placeholders */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Messages keyed by error code, or `CODE.kind` when one code covers
+ * several messages (the kind is passed in the error's `kind` param).
+ */
+export type MessageCatalog = Partial<Record<string, string>>;
+
+/** Message catalogs per locale; missing entries fall back (see translate) */
+export const MESSAGES: Record<SupportedLocale, MessageCatalog> = {
+  'en-US': {
+    REQUIRED: '{field} is required',
+    'REQUIRED.nonEmptyArray': '{field} must be a non-empty array',
+    'INVALID_TYPE.string': '{field} must be a string',
+    'INVALID_TYPE.number': '{field} must be a number',
+    'INVALID_TYPE.integer': '{field} must be an integer',
+    'INVALID_TYPE.boolean': '{field} must be a boolean',
+    'INVALID_TYPE.array': '{field} must be an array',
+    'INVALID_TYPE.stringArray': '{field} must be an array of strings',
+    'INVALID_TYPE.object': '{field} must be an object',
+    MIN_LENGTH: '{field} must be at least {min} characters',
+    MAX_LENGTH: '{field} must not exceed {max} characters',
+    'INVALID_FORMAT.email': '{field} must be a valid email address',
+    'INVALID_FORMAT.currency': '{field} must be a 3-letter ISO currency code',
+    'OUT_OF_RANGE.min': '{field} must be at least {min}',
+    'OUT_OF_RANGE.max': '{field} must not exceed {max}',
+    'INVALID_VALUE.oneOf': '{field} must be one of: {allowed}',
+    'INVALID_VALUE.sort': '{field} can only use: {allowed}',
+    'INVALID_VALUE.direction': '{field} direction must be asc or desc',
+    MAX_ITEMS: '{field} must not exceed {max} entries',
+    'role.admin': 'admin',
+    'role.editor': 'editor',
+    'role.viewer': 'viewer',
+    'role.guest': 'guest',
+  },
+  // British English reuses the en-US messages through the language fallback
+  'en-GB': {},
+  'es-ES': {
+    REQUIRED: '{field} es obligatorio',
+    'REQUIRED.nonEmptyArray': '{field} debe ser una lista no vacía',
+    'INVALID_TYPE.string': '{field} debe ser un texto',
+    'INVALID_TYPE.number': '{field} debe ser un número',
+    'INVALID_TYPE.integer': '{field} debe ser un número entero',
+    'INVALID_TYPE.boolean': '{field} debe ser verdadero o falso',
+    'INVALID_TYPE.array': '{field} debe ser una lista',
+    'INVALID_TYPE.stringArray': '{field} debe ser una lista de textos',
+    'INVALID_TYPE.object': '{field} debe ser un objeto',
+    MIN_LENGTH: '{field} debe tener al menos {min} caracteres',
+    MAX_LENGTH: '{field} no puede superar los {max} caracteres',
+    'INVALID_FORMAT.email': '{field} debe ser una dirección de correo válida',
+    'INVALID_FORMAT.currency': '{field} debe ser un código de moneda ISO de 3 letras',
+    'OUT_OF_RANGE.min': '{field} debe ser como mínimo {min}',
+    'OUT_OF_RANGE.max': '{field} no puede superar {max}',
+    'INVALID_VALUE.oneOf': '{field} debe ser uno de: {allowed}',
+    'INVALID_VALUE.sort': '{field} solo admite: {allowed}',
+    'INVALID_VALUE.direction': 'La dirección de {field} debe ser asc o desc',
+    MAX_ITEMS: '{field} no puede tener más de {max} elementos',
+    'role.admin': 'administrador',
+    'role.editor': 'editor',
+    'role.viewer': 'lector',
+    'role.guest': 'invitado',
+  },
+  'fr-FR': {
+    REQUIRED: '{field} est obligatoire',
+    'REQUIRED.nonEmptyArray': '{field} doit être une liste non vide',
+    'INVALID_TYPE.string': '{field} doit être un texte',
+    'INVALID_TYPE.number': '{field} doit être un nombre',
+    'INVALID_TYPE.integer': '{field} doit être un nombre entier',
+    'INVALID_TYPE.boolean': '{field} doit être vrai ou faux',
+    'INVALID_TYPE.array': '{field} doit être une liste',
+    'INVALID_TYPE.stringArray': '{field} doit être une liste de textes',
+    'INVALID_TYPE.object': '{field} doit être un objet',
+    MIN_LENGTH: '{field} doit contenir au moins {min} caractères',
+    MAX_LENGTH: '{field} ne doit pas dépasser {max} caractères',
+    'INVALID_FORMAT.email': '{field} doit être une adresse e-mail valide',
+    'INVALID_FORMAT.currency': '{field} doit être un code de devise ISO à 3 lettres',
+    'OUT_OF_RANGE.min': '{field} doit être au moins {min}',
+    'OUT_OF_RANGE.max': '{field} ne doit pas dépasser {max}',
+    'INVALID_VALUE.oneOf': "{field} doit être l'une des valeurs : {allowed}",
+    'INVALID_VALUE.sort': '{field} accepte uniquement : {allowed}',
+    'INVALID_VALUE.direction': 'Le sens de {field} doit être asc ou desc',
+    MAX_ITEMS: '{field} ne doit pas dépasser {max} éléments',
+    'role.admin': 'administrateur',
+    'role.editor': 'éditeur',
+    'role.viewer': 'lecteur',
+    'role.guest': 'invité',
+  },
+  'de-DE': {
+    REQUIRED: '{field} ist erforderlich',
+    'REQUIRED.nonEmptyArray': '{field} muss eine nicht leere Liste sein',
+    'INVALID_TYPE.string': '{field} muss ein Text sein',
+    'INVALID_TYPE.number': '{field} muss eine Zahl sein',
+    'INVALID_TYPE.integer': '{field} muss eine ganze Zahl sein',
+    'INVALID_TYPE.boolean': '{field} muss wahr oder falsch sein',
+    'INVALID_TYPE.array': '{field} muss eine Liste sein',
+    'INVALID_TYPE.stringArray': '{field} muss eine Liste von Texten sein',
+    'INVALID_TYPE.object': '{field} muss ein Objekt sein',
+    MIN_LENGTH: '{field} muss mindestens {min} Zeichen lang sein',
+    MAX_LENGTH: '{field} darf höchstens {max} Zeichen lang sein',
+    'INVALID_FORMAT.email': '{field} muss eine gültige E-Mail-Adresse sein',
+    'INVALID_FORMAT.currency': '{field} muss ein dreistelliger ISO-Währungscode sein',
+    'OUT_OF_RANGE.min': '{field} muss mindestens {min} sein',
+    'OUT_OF_RANGE.max': '{field} darf höchstens {max} sein',
+    'INVALID_VALUE.oneOf': '{field} muss einer dieser Werte sein: {allowed}',
+    'INVALID_VALUE.sort': '{field} erlaubt nur: {allowed}',
+    'INVALID_VALUE.direction': 'Die Richtung von {field} muss asc oder desc sein',
+    MAX_ITEMS: '{field} darf höchstens {max} Einträge haben',
+    'role.admin': 'Administrator',
+    'role.editor': 'Redakteur',
+    'role.viewer': 'Leser',
+    'role.guest': 'Gast',
+  },
+};
+
+/** Checks whether a value is a supported locale */
+export function isSupportedLocale(value: unknown): value is SupportedLocale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the best supported locale for an `Accept-Language` header.
+ * Exact matches win over language-only matches (`fr` or `fr-CA` → `fr-FR`);
+ * entries are tried in order of their q-values.
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): SupportedLocale {
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag = '', ...parameters] = part.trim().split(';');
+      const q = parameters.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(range => range.tag.length > 0 && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of ranges) {
+    const exact = SUPPORTED_LOCALES.find(locale => locale.toLowerCase() === tag);
+    if (exact) {
+      return exact;
+    }
+    const language = tag.split('-')[0];
+    const sameLanguage = SUPPORTED_LOCALES.find(locale => locale.toLowerCase().split('-')[0] === language);
+    if (sameLanguage) {
+      return sameLanguage;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** Replaces `{name}` placeholders; unknown placeholders are left as they are */
+export function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/** Locales to look a message up in: the locale, the other locales of its language, then the default */
+function fallbackChain(locale: SupportedLocale): SupportedLocale[] {
+  const language = locale.split('-')[0];
+  const sameLanguage = SUPPORTED_LOCALES.filter(candidate => candidate.split('-')[0] === language);
+  return Array.from(new Set([locale, ...sameLanguage, DEFAULT_LOCALE]));
+}
+
+/**
+ * Translates a message key, falling back through the locale's language and
+ * DEFAULT_LOCALE; returns the fallback when no catalog has the key.
+ */
+export function translate(
+  key: string,
+  locale: SupportedLocale,
+  params: MessageParams = {},
+  fallback: string = key
+): string {
+  for (const candidate of fallbackChain(locale)) {
+    const template = MESSAGES[candidate][key];
+    if (template !== undefined) {
+      return interpolate(template, params);
+    }
+  }
+  return fallback;
+}
+
+/** Translates a field error; the `kind` param selects a `CODE.kind` message */
+export function localizeFieldError(error: FieldError, locale: SupportedLocale): FieldError {
+  const params: MessageParams = { field: error.field, ...error.params };
+  const kind = error.params?.['kind'];
+  const message =
+    kind !== undefined
+      ? translate(`${error.code}.${kind}`, locale, params, translate(error.code, locale, params, error.message))
+      : translate(error.code, locale, params, error.message);
+  return { ...error, message };
+}
+
+/** Translates a list of field errors */
+export function localizeFieldErrors(errors: FieldError[], locale: SupportedLocale): FieldError[] {
+  return errors.map(error => localizeFieldError(error, locale));
+}
+
+/** Options for formatLocalizedDate */
+export interface DateFormatOptions {
+  /** IANA time zone, e.g. `Europe/Berlin` (defaults to UTC so output does not depend on the host) */
+  timeZone?: string;
+  dateStyle?: 'full' | 'long' | 'medium' | 'short';
+  /** Omitted means the time is not shown */
+  timeStyle?: 'full' | 'long' | 'medium' | 'short';
+}
+
+/** Formats a date for a locale and time zone */
+export function formatLocalizedDate(
+  date: Date,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+  options: DateFormatOptions = {}
+): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: options.timeZone ?? 'UTC',
+    dateStyle: options.dateStyle ?? 'medium',
+    ...(options.timeStyle && { timeStyle: options.timeStyle }),
+  }).format(date);
+}
+
+/** Formats an amount in an ISO 4217 currency for a locale */
+export function formatCurrency(amount: number, currency: string, locale: SupportedLocale = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
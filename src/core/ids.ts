@@ -0,0 +1,167 @@
+/**
+ * ID generation - pluggable strategies producing time-ordered ids.
+ *
+ * Test scenarios:
+ * - "Go to Implementation" on IdGenerator shows every strategy
+ * - "Find References" on getIdGenerator shows generateId in core/utils.ts
+ * - Rename RandomSource and see the generators update
+ */
+
+import { randomFillSync } from 'node:crypto';
+import type { Clock } from './clock.js';
+import { getClock } from './clock.js';
+
+/** Produces unique ids */
+export interface IdGenerator {
+  next(): string;
+}
+
+/** Names of the built-in strategies */
+export type IdStrategy = 'ulid' | 'uuidv7' | 'seeded';
+
+/** Fills a new byte array of the given length with random bytes */
+export type RandomSource = (length: number) => Uint8Array;
+
+/** Cryptographically secure random bytes */
+export const cryptoRandom: RandomSource = length => randomFillSync(new Uint8Array(length));
+
+/**
+ * Deterministic random bytes from a 32-bit seed (mulberry32).
+ * Not secure; meant for reproducible ids in tests and fixtures.
+ */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  const nextUint32 = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+  return length => Uint8Array.from({ length }, () => nextUint32() & 0xff);
+}
+
+/** Reads random bytes as an unsigned integer of the given bit width */
+function randomBigInt(random: RandomSource, bits: number): bigint {
+  const bytes = random(Math.ceil(bits / 8));
+  const value = bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+  return value & ((1n << BigInt(bits)) - 1n);
+}
+
+/**
+ * Base for ids made of a millisecond timestamp followed by random bits.
+ * Ids from one generator are strictly increasing: within the same
+ * millisecond (or if the clock goes backwards) the random part is
+ * incremented instead of redrawn.
+ */
+abstract class TimeOrderedIdGenerator implements IdGenerator {
+  private lastTime = -1;
+  private lastRandom = 0n;
+
+  /**
+   * @param randomBits - Width of the random part
+   * @param clock - Time source; defaults to the clock from getClock() at each call
+   */
+  constructor(
+    private readonly randomBits: number,
+    private readonly random: RandomSource,
+    private readonly clock?: Clock
+  ) {}
+
+  next(): string {
+    const now = (this.clock ?? getClock()).now().getTime();
+    if (now > this.lastTime) {
+      this.lastTime = now;
+      this.lastRandom = randomBigInt(this.random, this.randomBits);
+    } else {
+      this.lastRandom += 1n;
+      if (this.lastRandom >= 1n << BigInt(this.randomBits)) {
+        this.lastTime += 1;
+        this.lastRandom = 0n;
+      }
+    }
+    return this.format(this.lastTime, this.lastRandom);
+  }
+
+  /** Encodes a timestamp and random part as an id */
+  protected abstract format(time: number, random: bigint): string;
+}
+
+/** Crockford base32 alphabet used by ULIDs */
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/** Generates ULIDs: 26 characters, lexicographically sortable by creation time */
+export class UlidGenerator extends TimeOrderedIdGenerator {
+  constructor(clock?: Clock, random: RandomSource = cryptoRandom) {
+    super(80, random, clock);
+  }
+
+  protected format(time: number, random: bigint): string {
+    let value = (BigInt(time) << 80n) | random;
+    let encoded = '';
+    for (let i = 0; i < 26; i++) {
+      encoded = CROCKFORD_BASE32.charAt(Number(value & 31n)) + encoded;
+      value >>= 5n;
+    }
+    return encoded;
+  }
+}
+
+/** Generates RFC 9562 version 7 UUIDs, sortable by creation time */
+export class UuidV7Generator extends TimeOrderedIdGenerator {
+  constructor(clock?: Clock, random: RandomSource = cryptoRandom) {
+    // 12 bits of rand_a and 62 bits of rand_b
+    super(74, random, clock);
+  }
+
+  protected format(time: number, random: bigint): string {
+    const randA = random >> 62n;
+    const randB = random & ((1n << 62n) - 1n);
+    const value = (BigInt(time) << 80n) | (0x7n << 76n) | (randA << 64n) | (0b10n << 62n) | randB;
+    const hex = value.toString(16).padStart(32, '0');
+    return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+  }
+}
+
+/**
+ * ULID generator drawing its random part from a seed.
+ * With a frozen clock (see ManualClock) it yields the same ids on every run.
+ */
+export class SeededIdGenerator extends UlidGenerator {
+  constructor(seed: number, clock?: Clock) {
+    super(clock, seededRandom(seed));
+  }
+}
+
+/** Options for createIdGenerator */
+export interface IdGeneratorOptions {
+  clock?: Clock;
+  /** Seed for the `seeded` strategy (defaults to 1) */
+  seed?: number;
+}
+
+/** Creates a generator for a built-in strategy */
+export function createIdGenerator(strategy: IdStrategy, options: IdGeneratorOptions = {}): IdGenerator {
+  switch (strategy) {
+    case 'ulid':
+      return new UlidGenerator(options.clock);
+    case 'uuidv7':
+      return new UuidV7Generator(options.clock);
+    case 'seeded':
+      return new SeededIdGenerator(options.seed ?? 1, options.clock);
+  }
+}
+
+let activeGenerator: IdGenerator = new UlidGenerator();
+
+/** The generator behind generateId() */
+export function getIdGenerator(): IdGenerator {
+  return activeGenerator;
+}
+
+/** Replaces the generator behind generateId(); returns the previous one so it can be restored */
+export function setIdGenerator(generator: IdGenerator): IdGenerator {
+  const previous = activeGenerator;
+  activeGenerator = generator;
+  return previous;
+}
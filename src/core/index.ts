@@ -8,3 +8,20 @@
 
 export * from './types.js';
 export * from './utils.js';
+export * from './errors.js';
+export * from './listing.js';
+export * from './query.js';
+export * from './bulk.js';
+export * from './unitOfWork.js';
+export * from './cache.js';
+export * from './metrics.js';
+export * from './logger.js';
+export * from './tenancy.js';
+export * from './flags.js';
+export * from './flagSource.js';
+export * from './i18n.js';
+export * from './clock.js';
+export * from './ids.js';
+export * from './jsonFile.js';
+export * from './jsonFileRepository.js';
+export * from './sqlite.js';
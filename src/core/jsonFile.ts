@@ -0,0 +1,82 @@
+/**
+ * JSON file helpers - atomic writes, serialized writers and Date revival
+ * for file-backed storage.
+ *
+ * Test scenarios:
+ * - "Find References" on writeFileAtomic shows the file repository
+ * - "Go to Definition" on reviveDates from the repository loader
+ * - Rename SerialWriter and see the repository update
+ */
+
+import { mkdir, open, readFile, rename, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/** Counter making temp file names unique within the process */
+let tempFileCounter = 0;
+
+/**
+ * Writes a file atomically: the contents go to a temp file in the same
+ * directory, are flushed to disk, then renamed over the target. Readers see
+ * either the old or the new contents, never a partial write.
+ */
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+  try {
+    const handle = await open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/** Reads and parses a JSON file; returns undefined when the file does not exist */
+export async function readJsonFile(filePath: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/** Converts the named ISO date string fields of a parsed record back into Dates */
+export function reviveDates<T>(record: Record<string, unknown>, fields: readonly string[]): T {
+  const revived = { ...record };
+  for (const field of fields) {
+    const value = revived[field];
+    if (typeof value === 'string') {
+      revived[field] = new Date(value);
+    }
+  }
+  return revived as T;
+}
+
+/**
+ * Runs tasks one at a time in submission order. A failed task does not
+ * stop later ones; its caller sees the rejection.
+ */
+export class SerialWriter {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /** Queues a task after every previously queued one */
+  run<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Resolves once every queued task has finished */
+  async idle(): Promise<void> {
+    await this.tail;
+  }
+}
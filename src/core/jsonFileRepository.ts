@@ -0,0 +1,148 @@
+/**
+ * JSON file repository - a Repository that keeps its entities in a JSON file
+ * so they survive restarts.
+ *
+ * Test scenarios:
+ * - "Find Implementations" of Repository includes JsonFileRepository
+ * - "Go to Definition" on writeFileAtomic navigates to core/jsonFile.ts
+ * - Rename JsonFileRepositoryOptions and see the composition root update
+ */
+
+import type { Entity, OperationResult, Repository } from './types.js';
+import { success, failure } from './utils.js';
+import { InternalError, NotFoundError, toAppError } from './errors.js';
+import type { Logger } from './logger.js';
+import { silentLogger } from './logger.js';
+import { SerialWriter, readJsonFile, reviveDates, writeFileAtomic } from './jsonFile.js';
+import type { Predicate, Query, StreamOptions } from './query.js';
+import { applyQuery, countMatching, streamEntities } from './query.js';
+
+/** Options for JsonFileRepository */
+export interface JsonFileRepositoryOptions {
+  /** Entity name used in not-found errors (defaults to "Entity") */
+  entityName?: string;
+  /** Fields stored as ISO strings and revived as Dates, besides createdAt and updatedAt */
+  dateFields?: string[];
+  logger?: Logger;
+}
+
+/** Date fields every entity has */
+const ENTITY_DATE_FIELDS = ['createdAt', 'updatedAt'] as const;
+
+/**
+ * Repository persisted to a JSON file holding an array of entities.
+ * The file is read on first use and rewritten atomically after every change;
+ * changes are applied one at a time, so overlapping saves cannot interleave
+ * their writes. A change whose write fails is rolled back in memory.
+ */
+export class JsonFileRepository<T extends Entity> implements Repository<T> {
+  private entities: Map<string, T> | null = null;
+  private loading: Promise<Map<string, T>> | null = null;
+  private readonly writer = new SerialWriter();
+  private readonly entityName: string;
+  private readonly dateFields: string[];
+  private readonly logger: Logger;
+
+  constructor(
+    readonly filePath: string,
+    options: JsonFileRepositoryOptions = {}
+  ) {
+    this.entityName = options.entityName ?? 'Entity';
+    this.dateFields = [...ENTITY_DATE_FIELDS, ...(options.dateFields ?? [])];
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  async findById(id: string): Promise<T | null> {
+    return (await this.load()).get(id) ?? null;
+  }
+
+  async findAll(): Promise<T[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async find(query?: Query<T>): Promise<T[]> {
+    return applyQuery(Array.from((await this.load()).values()), query);
+  }
+
+  async count(where?: Predicate<T>): Promise<number> {
+    return countMatching(Array.from((await this.load()).values()), where);
+  }
+
+  async *stream(options?: StreamOptions<T>): AsyncGenerator<T> {
+    yield* streamEntities((await this.load()).values(), options);
+  }
+
+  async save(entity: T): Promise<OperationResult<T>> {
+    return this.change(entities => {
+      const previous = entities.get(entity.id);
+      entities.set(entity.id, entity);
+      return {
+        result: success(entity),
+        undo: () => (previous ? entities.set(entity.id, previous) : entities.delete(entity.id)),
+      };
+    });
+  }
+
+  async delete(id: string): Promise<OperationResult<void>> {
+    return this.change(entities => {
+      const previous = entities.get(id);
+      if (!previous) {
+        return { result: failure(NotFoundError.forEntity(this.entityName, id)) };
+      }
+      entities.delete(id);
+      return { result: success(undefined), undo: () => entities.set(id, previous) };
+    });
+  }
+
+  /** Resolves once every pending write has reached the file */
+  async flush(): Promise<void> {
+    await this.writer.idle();
+  }
+
+  /** Reads the file once; a missing file is an empty repository */
+  private load(): Promise<Map<string, T>> {
+    if (this.entities) {
+      return Promise.resolve(this.entities);
+    }
+    this.loading ??= readJsonFile(this.filePath)
+      .then(parsed => {
+        if (parsed !== undefined && !Array.isArray(parsed)) {
+          throw new InternalError(`${this.filePath} does not contain an array of entities`);
+        }
+        const records = (parsed ?? []) as Record<string, unknown>[];
+        this.entities = new Map(
+          records.map(record => {
+            const entity = reviveDates<T>(record, this.dateFields);
+            return [entity.id, entity];
+          })
+        );
+        this.logger.debug('Repository file loaded', { filePath: this.filePath, count: this.entities.size });
+        return this.entities;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  /** Applies a change and writes the file, undoing the change if the write fails */
+  private change<R>(
+    apply: (entities: Map<string, T>) => { result: OperationResult<R>; undo?: () => void }
+  ): Promise<OperationResult<R>> {
+    return this.writer.run(async () => {
+      const entities = await this.load();
+      const { result, undo } = apply(entities);
+      if (!undo) {
+        return result;
+      }
+      try {
+        await writeFileAtomic(this.filePath, JSON.stringify(Array.from(entities.values()), null, 2));
+        return result;
+      } catch (error) {
+        undo();
+        this.logger.error('Repository file write failed', { filePath: this.filePath, error });
+        return failure(toAppError(error));
+      }
+    });
+  }
+}
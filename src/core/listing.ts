@@ -0,0 +1,114 @@
+/**
+ * Pagination and sorting helpers for list operations.
+ *
+ * Test scenarios:
+ * - "Find References" on pageMeta shows findPage in the query module
+ * - Rename ListQuery and see the user/product queries update
+ * - "Go to Definition" on PageMeta from the API response
+ */
+
+/** Sort direction */
+export type SortDirection = 'asc' | 'desc';
+
+/** A single sort key; `field` may be a dotted path such as `price.amount` */
+export interface SortField {
+  field: string;
+  direction: SortDirection;
+}
+
+/** Common paging and sorting options for list operations */
+export interface ListQuery {
+  page?: number;
+  pageSize?: number;
+  sort?: SortField[];
+}
+
+/** Page metadata returned with list results */
+export interface PageMeta {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+/** A page of results */
+export interface Page<T> {
+  items: T[];
+  meta: PageMeta;
+}
+
+/** Page size used when none is requested */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/** Largest page size a caller may request */
+export const MAX_PAGE_SIZE = 100;
+
+/** Reads a (possibly nested) field from an object by dotted path */
+export function getFieldValue(source: object, path: string): unknown {
+  let current: unknown = source;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/** Compares two field values; missing values sort last */
+export function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b));
+}
+
+/** Returns a sorted copy of the items (stable, multi-key) */
+export function sortItems<T extends object>(items: T[], sort: SortField[] = []): T[] {
+  if (sort.length === 0) {
+    return [...items];
+  }
+  return [...items].sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const result = compareValues(getFieldValue(a, field), getFieldValue(b, field));
+      if (result !== 0) {
+        return direction === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+/** Page metadata for a page of a result with `total` items */
+export function pageMeta(total: number, page: number, pageSize: number): PageMeta {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    page,
+    pageSize,
+    total,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPreviousPage: page > 1,
+  };
+}
+
+/**
+ * Parses a sort specification such as `-price.amount,createdAt`.
+ * A leading `-` sorts descending.
+ */
+export function parseSort(spec: string): SortField[] {
+  return spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part =>
+      part.startsWith('-')
+        ? { field: part.slice(1), direction: 'desc' as const }
+        : { field: part.replace(/^\+/, ''), direction: 'asc' as const }
+    );
+}
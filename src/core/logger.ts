@@ -0,0 +1,218 @@
+/**
+ * Structured JSON-lines logging with level filtering and secret redaction.
+ *
+ * Test scenarios:
+ * - "Find Implementations" on Logger shows JsonLogger
+ * - "Find References" on redact shows the logger and the server
+ * - Rename child and see the handlers that bind correlation ids update
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getClock } from './clock.js';
+
+/** Log levels, lowest severity first */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+/** Logger interface */
+export interface Logger {
+  log(level: LogLevel, message: string, meta?: Record<string, unknown>): void;
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+/** Numeric severity of each level */
+export const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  fatal: 50,
+};
+
+/** Replacement for redacted values */
+export const REDACTED = '[REDACTED]';
+
+/** Field names whose values are never logged (matched case-insensitively) */
+export const SENSITIVE_KEY_PATTERN = /passw(or)?d|secret|token|authorization|api[-_]?key|cookie/i;
+
+/** Bearer credentials embedded in strings */
+const BEARER_PATTERN = /\b(Bearer)\s+[A-Za-z0-9._~+/=-]+/gi;
+
+/** Writes one formatted log line */
+export type LogSink = (line: string) => void;
+
+/** Options for JsonLogger */
+export interface LoggerOptions {
+  /** Least severe level that is written (defaults to `info`) */
+  level?: LogLevel;
+  /** Destination for log lines (defaults to console.log) */
+  sink?: LogSink;
+  /** Fields added to every record */
+  bindings?: Record<string, unknown>;
+  /** Field names to redact (defaults to SENSITIVE_KEY_PATTERN) */
+  sensitiveKeys?: RegExp;
+}
+
+/** Fields of the current asynchronous context, e.g. the request's correlation id */
+const logContext = new AsyncLocalStorage<Record<string, unknown>>();
+
+/**
+ * Runs a function with fields that JsonLogger adds to every record written
+ * while it runs, including from code awaited by it, such as services called
+ * by a request handler. Nested calls add to the outer fields.
+ */
+export function withLogContext<R>(fields: Record<string, unknown>, run: () => R): R {
+  return logContext.run({ ...logContext.getStore(), ...fields }, run);
+}
+
+/** Fields set by the enclosing withLogContext calls */
+export function currentLogContext(): Record<string, unknown> {
+  return logContext.getStore() ?? {};
+}
+
+/** Checks whether a string is a log level */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LOG_LEVEL_SEVERITY;
+}
+
+/**
+ * Returns a JSON-safe copy of a value with sensitive fields replaced.
+ * Errors become `{ name, message, stack }`, dates become ISO strings and
+ * circular references become `[Circular]`; an object referenced twice
+ * without a cycle is copied each time.
+ */
+export function redact(
+  value: unknown,
+  sensitiveKeys: RegExp = SENSITIVE_KEY_PATTERN,
+  ancestors: WeakSet<object> = new WeakSet()
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(BEARER_PATTERN, `$1 ${REDACTED}`);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (ancestors.has(value)) {
+    return '[Circular]';
+  }
+  ancestors.add(value);
+  try {
+    if (value instanceof Error) {
+      const message = redact(value.message, sensitiveKeys, ancestors);
+      return { name: value.name, message, stack: value.stack };
+    }
+    if (Array.isArray(value)) {
+      return value.map(entry => redact(entry, sensitiveKeys, ancestors));
+    }
+    const entries: [string, unknown][] =
+      value instanceof Map
+        ? Array.from(value, ([key, entry]): [string, unknown] => [String(key), entry])
+        : Object.entries(value);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of entries) {
+      if (entry !== undefined) {
+        result[key] = sensitiveKeys.test(key) ? REDACTED : redact(entry, sensitiveKeys, ancestors);
+      }
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/** Logger writing one JSON object per line, with the fields of the current log context */
+export class JsonLogger implements Logger {
+  private readonly level: LogLevel;
+  private readonly sink: LogSink;
+  private readonly bindings: Record<string, unknown>;
+  private readonly sensitiveKeys: RegExp;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.sink = options.sink ?? (line => console.log(line));
+    this.bindings = options.bindings ?? {};
+    this.sensitiveKeys = options.sensitiveKeys ?? SENSITIVE_KEY_PATTERN;
+  }
+
+  /** Whether records at the level are written */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVEL_SEVERITY[level] >= LOG_LEVEL_SEVERITY[this.level];
+  }
+
+  /** Creates a logger that adds the bindings to every record */
+  child(bindings: Record<string, unknown>): JsonLogger {
+    return new JsonLogger({
+      level: this.level,
+      sink: this.sink,
+      bindings: { ...this.bindings, ...bindings },
+      sensitiveKeys: this.sensitiveKeys,
+    });
+  }
+
+  log(level: LogLevel, message: string, meta: Record<string, unknown> = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+    const fields = { ...currentLogContext(), ...this.bindings, ...meta };
+    const record = redact(fields, this.sensitiveKeys) as Record<string, unknown>;
+    const head = {
+      time: getClock().now().toISOString(),
+      level,
+      message: redact(message, this.sensitiveKeys),
+    };
+    // Spreading the head again keeps it first in the line and stops fields replacing it
+    this.sink(JSON.stringify({ ...head, ...record, ...head }));
+  }
+
+  debug(message: string, meta?: Record<string, unknown>): void {
+    this.log('debug', message, meta);
+  }
+
+  info(message: string, meta?: Record<string, unknown>): void {
+    this.log('info', message, meta);
+  }
+
+  warn(message: string, meta?: Record<string, unknown>): void {
+    this.log('warn', message, meta);
+  }
+
+  error(message: string, meta?: Record<string, unknown>): void {
+    this.log('error', message, meta);
+  }
+
+  fatal(message: string, meta?: Record<string, unknown>): void {
+    this.log('fatal', message, meta);
+  }
+}
+
+/** Logger that discards every record */
+export const silentLogger: Logger = {
+  log: () => undefined,
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/** Binds fields to a logger, using `child` when the logger supports it */
+export function bindLogger(logger: Logger, bindings: Record<string, unknown>): Logger {
+  if (logger instanceof JsonLogger) {
+    return logger.child(bindings);
+  }
+  return {
+    log: (level, message, meta) => logger.log(level, message, { ...bindings, ...meta }),
+    debug: (message, meta) => logger.debug(message, { ...bindings, ...meta }),
+    info: (message, meta) => logger.info(message, { ...bindings, ...meta }),
+    warn: (message, meta) => logger.warn(message, { ...bindings, ...meta }),
+    error: (message, meta) => logger.error(message, { ...bindings, ...meta }),
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Metrics primitives (counters, gauges, histograms) with Prometheus text exposition.
+ *
+ * Test scenarios:
+ * - "Find Implementations" on Repository shows InstrumentedRepository
+ * - "Find References" on MetricsRegistry shows the API metrics and the server
+ * - Rename Histogram and see the repository and handler instrumentation update
+ */
+
+import type { Entity, OperationResult, Repository } from './types.js';
+import type { Predicate, Query, StreamOptions } from './query.js';
+
+/** Label values keyed by label name */
+export type Labels = Record<string, string>;
+
+/** Metric types supported by the exposition format */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Latency buckets in seconds, from 1ms to 10s */
+export const DEFAULT_LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Escapes a label value for the text format */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/** Formats a label set as `{a="1",b="2"}` (empty for no labels) */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/** Formats a sample value; the text format spells infinities as +Inf/-Inf */
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** Stable key for a label set */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+/** Base class for named metrics with labelled series */
+export abstract class Metric<S> {
+  abstract readonly type: MetricType;
+  protected series: Map<string, { labels: Labels; state: S }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  /** Gets (or creates) the state of the series for a label set */
+  protected seriesFor(labels: Labels, create: () => S): S {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, state: create() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  /** Formats the sample lines of this metric */
+  protected abstract formatSamples(): string[];
+
+  /** Formats the metric with its HELP and TYPE lines */
+  format(): string {
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.formatSamples(),
+    ].join('\n');
+  }
+}
+
+/** A monotonically increasing count */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  /** Increases the counter */
+  inc(labels: Labels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new RangeError('Counters can only increase');
+    }
+    this.seriesFor(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  /** Current value for a label set */
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.state.value ?? 0;
+  }
+
+  protected formatSamples(): string[] {
+    return Array.from(this.series.values(), ({ labels, state }) =>
+      `${this.name}${formatLabels(labels)} ${formatValue(state.value)}`
+    );
+  }
+}
+
+/**
+ * A value that can go up and down.
+ * An optional collector refreshes the gauge just before it is exposed.
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly collector?: (gauge: Gauge) => void | Promise<void>
+  ) {
+    super(name, help);
+  }
+
+  /** Sets the value for a label set */
+  set(labels: Labels, value: number): void {
+    this.seriesFor(labels, () => ({ value: 0 })).value = value;
+  }
+
+  /** Current value for a label set */
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.state.value ?? 0;
+  }
+
+  /** Runs the collector, if any */
+  async collect(): Promise<void> {
+    await this.collector?.(this);
+  }
+
+  protected formatSamples(): string[] {
+    return Array.from(this.series.values(), ({ labels, state }) =>
+      `${this.name}${formatLabels(labels)} ${formatValue(state.value)}`
+    );
+  }
+}
+
+/** Observation counts per bucket */
+interface HistogramState {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/** Distribution of observed values over cumulative buckets */
+export class Histogram extends Metric<HistogramState> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /** Records an observation */
+  observe(labels: Labels, value: number): void {
+    const state = this.seriesFor(labels, () => ({
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        state.bucketCounts[i] = (state.bucketCounts[i] ?? 0) + 1;
+      }
+    });
+    state.sum += value;
+    state.count += 1;
+  }
+
+  /** Number of observations for a label set */
+  count(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.state.count ?? 0;
+  }
+
+  protected formatSamples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, state } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${bucketLabels} ${state.bucketCounts[i] ?? 0}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${state.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    }
+    return lines;
+  }
+}
+
+/** Holds metrics by name and renders them in Prometheus text format */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric<unknown>> = new Map();
+
+  /** Registers a metric, returning the existing one when the name is taken by the same type */
+  register<M extends Metric<unknown>>(metric: M): M {
+    const existing = this.metrics.get(metric.name);
+    if (existing) {
+      if (existing.type !== metric.type) {
+        throw new Error(`Metric ${metric.name} is already registered as a ${existing.type}`);
+      }
+      return existing as M;
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  /** Creates or gets a counter */
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  /** Creates or gets a gauge */
+  gauge(name: string, help: string, collector?: (gauge: Gauge) => void | Promise<void>): Gauge {
+    return this.register(new Gauge(name, help, collector));
+  }
+
+  /** Creates or gets a histogram */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /** Gets a registered metric by name */
+  get(name: string): Metric<unknown> | undefined {
+    return this.metrics.get(name);
+  }
+
+  /** Refreshes collected gauges and renders every metric in text exposition format */
+  async expose(): Promise<string> {
+    for (const metric of this.metrics.values()) {
+      if (metric instanceof Gauge) {
+        await metric.collect();
+      }
+    }
+    return `${Array.from(this.metrics.values(), metric => metric.format()).join('\n')}\n`;
+  }
+}
+
+/** Content type of the Prometheus text format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Seconds elapsed since a `performance.now()` reading */
+export function secondsSince(start: number): number {
+  return (performance.now() - start) / 1000;
+}
+
+/**
+ * Repository decorator that counts and times every call.
+ * Records `repository_operations_total` and `repository_operation_duration_seconds`
+ * labelled by repository, operation and outcome (`success` or `error`).
+ */
+export class InstrumentedRepository<T extends Entity> implements Repository<T> {
+  private readonly calls: Counter;
+  private readonly duration: Histogram;
+
+  constructor(
+    private readonly inner: Repository<T>,
+    private readonly repositoryName: string,
+    registry: MetricsRegistry
+  ) {
+    this.calls = registry.counter('repository_operations_total', 'Repository calls by operation and outcome');
+    this.duration = registry.histogram(
+      'repository_operation_duration_seconds',
+      'Repository call latency in seconds'
+    );
+  }
+
+  findById(id: string): Promise<T | null> {
+    return this.record('findById', () => this.inner.findById(id));
+  }
+
+  findAll(): Promise<T[]> {
+    return this.record('findAll', () => this.inner.findAll());
+  }
+
+  find(query?: Query<T>): Promise<T[]> {
+    return this.record('find', () => this.inner.find(query));
+  }
+
+  count(where?: Predicate<T>): Promise<number> {
+    return this.record('count', () => this.inner.count(where));
+  }
+
+  stream(options?: StreamOptions<T>): AsyncIterable<T> {
+    return this.recordStream(this.inner.stream(options));
+  }
+
+  save(entity: T): Promise<OperationResult<T>> {
+    return this.record('save', () => this.inner.save(entity));
+  }
+
+  delete(id: string): Promise<OperationResult<void>> {
+    return this.record('delete', () => this.inner.delete(id));
+  }
+
+  /** Runs a call, recording its outcome; failed OperationResults count as errors */
+  private async record<R>(operation: string, call: () => Promise<R>): Promise<R> {
+    const start = performance.now();
+    let outcome = 'error';
+    try {
+      const result = await call();
+      const failed = typeof result === 'object' && result !== null && 'success' in result && !result.success;
+      outcome = failed ? 'error' : 'success';
+      return result;
+    } finally {
+      this.observe(operation, outcome, start);
+    }
+  }
+
+  /**
+   * Passes a stream through, recording it as one `stream` call that lasts
+   * until iteration ends; stopping early counts as success.
+   */
+  private async *recordStream(entities: AsyncIterable<T>): AsyncGenerator<T> {
+    const start = performance.now();
+    let outcome = 'success';
+    try {
+      yield* entities;
+    } catch (error) {
+      outcome = 'error';
+      throw error;
+    } finally {
+      this.observe('stream', outcome, start);
+    }
+  }
+
+  private observe(operation: string, outcome: string, start: number): void {
+    const labels = { repository: this.repositoryName, operation, outcome };
+    this.calls.inc(labels);
+    this.duration.observe(labels, secondsSince(start));
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * SQLite storage - a Repository base class over Node's built-in node:sqlite
+ * driver, mapping entities to table rows and queries to SQL.
+ *
+ * Test scenarios:
+ * - "Find Implementations" of Repository includes SqliteRepository
+ * - "Find References" on SqliteTable shows the user and product tables
+ * - Rename fromRow and see the table definitions update
+ */
+
+import type { DatabaseSync, SQLInputValue, SQLOutputValue } from 'node:sqlite';
+import type { Entity, OperationResult, Repository } from './types.js';
+import { success, failure } from './utils.js';
+import { ConflictError, ForbiddenError, NotFoundError, toAppError } from './errors.js';
+import type { SortField } from './listing.js';
+import type { Predicate, Query, QueryValue, StreamOptions } from './query.js';
+import { DEFAULT_STREAM_BATCH_SIZE, applyQuery, countMatching, matches } from './query.js';
+
+/** A row as returned by node:sqlite */
+export type SqliteRow = Record<string, SQLOutputValue>;
+
+/** A column and how it is read from an entity */
+export interface SqliteColumn<T> {
+  name: string;
+  /** Entity field stored in the column, as a dotted path for queries (e.g. `price.amount`) */
+  field: string;
+  type: 'TEXT' | 'INTEGER' | 'REAL';
+  nullable?: boolean;
+  /** The column holds a JSON array */
+  array?: boolean;
+  /** The column holds ISO dates as TEXT, whose binary order is their time order */
+  date?: boolean;
+  value(entity: T): SQLInputValue;
+}
+
+/** An index on one or more columns (or expressions such as `lower(email)`) */
+export interface SqliteIndex {
+  name: string;
+  columns: string[];
+  unique?: boolean;
+}
+
+/** How an entity type is stored */
+export interface SqliteTable<T extends Entity> {
+  name: string;
+  /** Entity name used in error messages */
+  entityName: string;
+  /** Columns besides the common entity columns (see ENTITY_COLUMNS) */
+  columns: SqliteColumn<T>[];
+  indexes: SqliteIndex[];
+  /** Builds an entity from a row */
+  fromRow(row: SqliteRow): T;
+}
+
+/** Columns every entity table has */
+const ENTITY_COLUMNS: SqliteColumn<Entity>[] = [
+  { name: 'id', field: 'id', type: 'TEXT', value: entity => entity.id },
+  { name: 'tenant_id', field: 'tenantId', type: 'TEXT', value: entity => entity.tenantId },
+  { name: 'is_active', field: 'isActive', type: 'INTEGER', value: entity => (entity.isActive ? 1 : 0) },
+  {
+    name: 'created_at',
+    field: 'createdAt',
+    type: 'TEXT',
+    date: true,
+    value: entity => entity.createdAt.toISOString(),
+  },
+  {
+    name: 'updated_at',
+    field: 'updatedAt',
+    type: 'TEXT',
+    date: true,
+    value: entity => entity.updatedAt.toISOString(),
+  },
+];
+
+/** Reads the common entity fields of a row */
+export function entityFieldsFromRow(row: SqliteRow): Entity {
+  return {
+    id: String(row['id']),
+    tenantId: String(row['tenant_id']),
+    isActive: row['is_active'] === 1,
+    createdAt: new Date(String(row['created_at'])),
+    updatedAt: new Date(String(row['updated_at'])),
+  };
+}
+
+/** Reads an optional ISO date column */
+export function optionalDate(value: SQLOutputValue | undefined): Date | undefined {
+  return typeof value === 'string' ? new Date(value) : undefined;
+}
+
+/**
+ * Opens a database, `:memory:` by default.
+ * node:sqlite is loaded on first use, so importing this module works on Node
+ * versions without it (it needs Node 22.5 or later).
+ */
+export async function openSqliteDatabase(location: string = ':memory:'): Promise<DatabaseSync> {
+  const { DatabaseSync } = await import('node:sqlite');
+  const database = new DatabaseSync(location);
+  if (location !== ':memory:') {
+    database.exec('PRAGMA journal_mode = WAL');
+  }
+  database.exec('PRAGMA busy_timeout = 5000');
+  return database;
+}
+
+/** Whether an error is a SQLite unique or primary key violation */
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && /UNIQUE constraint failed/.test(error.message);
+}
+
+/** Filter pushed down to SQL: a WHERE clause and its parameters */
+export interface SqlFilter {
+  where: string;
+  params: SQLInputValue[];
+}
+
+/** A query value as stored: Dates as ISO strings, booleans as 0 or 1 */
+function toSqlValue(value: Exclude<QueryValue, null>): SQLInputValue {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+const SQL_OPERATORS = { lt: '<', lte: '<=', gt: '>', gte: '>=' } as const;
+
+/** Whether a string is ASCII only, the only characters SQLite's lower() folds as toLowerCase() does */
+function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+/** Filter matching every row (`all`) or none */
+function constantFilter(all: boolean): SqlFilter {
+  return { where: all ? '1' : '0', params: [] };
+}
+
+/**
+ * Repository storing entities in a SQLite table, created (with its indexes)
+ * if it does not exist. When constructed for a tenant, every query is
+ * restricted to that tenant's rows.
+ * Queries are translated to SQL; one naming a field without a column is run
+ * in memory over the tenant's rows instead.
+ */
+export class SqliteRepository<T extends Entity> implements Repository<T> {
+  private readonly columns: SqliteColumn<T>[];
+  private readonly columnsByField: Map<string, SqliteColumn<T>>;
+
+  constructor(
+    protected readonly database: DatabaseSync,
+    protected readonly table: SqliteTable<T>,
+    readonly tenantId?: string
+  ) {
+    this.columns = [...(ENTITY_COLUMNS as SqliteColumn<T>[]), ...table.columns];
+    this.columnsByField = new Map(this.columns.map(column => [column.field, column]));
+    this.createSchema();
+  }
+
+  async findById(id: string): Promise<T | null> {
+    return this.select({ where: 'id = ?', params: [id] })[0] ?? null;
+  }
+
+  async findAll(): Promise<T[]> {
+    return this.select();
+  }
+
+  async find(query: Query<T> = {}): Promise<T[]> {
+    const filter = query.where ? this.compile(query.where) : undefined;
+    const orderBy = this.orderBy(query.sort ?? []);
+    if (filter === null || orderBy === null) {
+      return applyQuery(this.select(), query);
+    }
+    return this.select(filter, orderBy, query.limit, query.offset);
+  }
+
+  async count(where?: Predicate<T>): Promise<number> {
+    const filter = where ? this.compile(where) : undefined;
+    if (filter === null) {
+      return countMatching(this.select(), where);
+    }
+    const scope = this.scoped(filter);
+    const row = this.database
+      .prepare(`SELECT COUNT(*) AS total FROM ${this.table.name}${scope.where && ` WHERE ${scope.where}`}`)
+      .get(...scope.params);
+    return Number(row?.['total'] ?? 0);
+  }
+
+  /**
+   * Streams matching rows in insertion order, reading `batchSize` rows per
+   * query keyed on rowid, so rows saved meanwhile do not shift the batches.
+   */
+  async *stream(options: StreamOptions<T> = {}): AsyncGenerator<T> {
+    const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+    const compiled = options.where ? this.compile(options.where) : undefined;
+    // A predicate SQL cannot express is checked on each row instead
+    const check = compiled === null ? options.where : undefined;
+    let lastRowid = 0;
+    for (;;) {
+      const scope = this.scoped({
+        where: compiled ? `(${compiled.where}) AND rowid > ?` : 'rowid > ?',
+        params: [...(compiled?.params ?? []), lastRowid],
+      });
+      const rows = this.database
+        .prepare(
+          `SELECT rowid AS row_id, * FROM ${this.table.name} WHERE ${scope.where} ORDER BY rowid LIMIT ?`
+        )
+        .all(...scope.params, batchSize);
+      for (const row of rows) {
+        lastRowid = Number(row['row_id']);
+        const entity = this.table.fromRow(row);
+        if (!check || matches(entity, check)) {
+          yield entity;
+        }
+      }
+      if (rows.length < batchSize) {
+        return;
+      }
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  /** Inserts or updates an entity; a row with its id owned by another tenant is never overwritten */
+  async save(entity: T): Promise<OperationResult<T>> {
+    if (this.tenantId !== undefined && entity.tenantId !== this.tenantId) {
+      return failure(new ForbiddenError(`${this.table.entityName} belongs to another tenant`));
+    }
+    const names = this.columns.map(column => column.name);
+    const placeholders = names.map(() => '?').join(', ');
+    const updates = names.filter(name => name !== 'id').map(name => `${name} = excluded.${name}`);
+    try {
+      const { changes } = this.database
+        .prepare(
+          `INSERT INTO ${this.table.name} (${names.join(', ')}) VALUES (${placeholders}) ` +
+            `ON CONFLICT(id) DO UPDATE SET ${updates.join(', ')} WHERE tenant_id = excluded.tenant_id`
+        )
+        .run(...this.columns.map(column => column.value(entity)));
+      if (Number(changes) === 0) {
+        return failure(new ForbiddenError(`${this.table.entityName} belongs to another tenant`));
+      }
+      return success(entity);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return failure(new ConflictError(`${this.table.entityName} violates a unique constraint`));
+      }
+      return failure(toAppError(error));
+    }
+  }
+
+  async delete(id: string): Promise<OperationResult<void>> {
+    const scope = this.scoped({ where: 'id = ?', params: [id] });
+    const { changes } = this.database
+      .prepare(`DELETE FROM ${this.table.name} WHERE ${scope.where}`)
+      .run(...scope.params);
+    return Number(changes) > 0
+      ? success(undefined)
+      : failure(NotFoundError.forEntity(this.table.entityName, id));
+  }
+
+  /** Selects the entities matching a filter, in insertion order unless `orderBy` is given */
+  private select(filter?: SqlFilter, orderBy?: string, limit?: number, offset?: number): T[] {
+    const scope = this.scoped(filter);
+    const parts = [`SELECT * FROM ${this.table.name}`];
+    const params = [...scope.params];
+    if (scope.where) {
+      parts.push(`WHERE ${scope.where}`);
+    }
+    parts.push(`ORDER BY ${orderBy ? `${orderBy}, rowid` : 'rowid'}`);
+    if (limit !== undefined || offset !== undefined) {
+      parts.push('LIMIT ? OFFSET ?');
+      params.push(limit ?? -1, offset ?? 0);
+    }
+    return this.database.prepare(parts.join(' ')).all(...params).map(row => this.table.fromRow(row));
+  }
+
+  /** Adds the tenant restriction to a filter */
+  private scoped(filter?: SqlFilter): SqlFilter {
+    const clauses = filter ? [`(${filter.where})`] : [];
+    const params = filter ? [...filter.params] : [];
+    if (this.tenantId !== undefined) {
+      clauses.push('tenant_id = ?');
+      params.push(this.tenantId);
+    }
+    return { where: clauses.join(' AND '), params };
+  }
+
+  /**
+   * Translates a predicate to SQL with the same results as evaluating it in
+   * memory (missing values never compare); null when a field has no column.
+   */
+  private compile(predicate: Predicate<T>): SqlFilter | null {
+    if (predicate.kind === 'and' || predicate.kind === 'or') {
+      if (predicate.predicates.length === 0) {
+        return constantFilter(predicate.kind === 'and');
+      }
+      const parts: SqlFilter[] = [];
+      for (const inner of predicate.predicates) {
+        const part = this.compile(inner);
+        if (!part) return null;
+        parts.push(part);
+      }
+      return {
+        where: parts.map(part => `(${part.where})`).join(predicate.kind === 'and' ? ' AND ' : ' OR '),
+        params: parts.flatMap(part => part.params),
+      };
+    }
+    if (predicate.kind === 'not') {
+      const inner = this.compile(predicate.predicate);
+      return inner && { where: `NOT (${inner.where})`, params: inner.params };
+    }
+
+    const column = this.columnsByField.get(predicate.field);
+    if (!column || Boolean(column.array) !== (predicate.kind === 'includesAny')) {
+      return null;
+    }
+    const name = column.name;
+    switch (predicate.kind) {
+      case 'compare': {
+        const { operator, value } = predicate;
+        if (operator === 'eq' || operator === 'ne') {
+          const is = operator === 'eq' ? 'IS' : 'IS NOT';
+          return value === null
+            ? { where: `${name} ${is} NULL`, params: [] }
+            : { where: `${name} ${is} ?`, params: [toSqlValue(value)] };
+        }
+        if (value === null) {
+          return constantFilter(false);
+        }
+        // Strings are ordered with localeCompare in memory, which SQL's binary collation does not follow
+        if (typeof value === 'string') {
+          return null;
+        }
+        return {
+          where: `${name} IS NOT NULL AND ${name} ${SQL_OPERATORS[operator]} ?`,
+          params: [toSqlValue(value)],
+        };
+      }
+      case 'oneOf': {
+        const values = predicate.values.filter((value): value is Exclude<QueryValue, null> => value !== null);
+        const placeholders = values.map(() => '?').join(', ');
+        const clauses = values.length > 0 ? [`${name} IN (${placeholders})`] : [];
+        if (values.length < predicate.values.length) {
+          clauses.push(`${name} IS NULL`);
+        }
+        return clauses.length > 0
+          ? { where: `COALESCE(${clauses.join(' OR ')}, 0)`, params: values.map(toSqlValue) }
+          : constantFilter(false);
+      }
+      case 'equalsIgnoreCase':
+        return column.type === 'TEXT' && isAscii(predicate.value)
+          ? { where: `${name} IS NOT NULL AND lower(${name}) = lower(?)`, params: [predicate.value] }
+          : null;
+      case 'contains':
+        return column.type === 'TEXT' && isAscii(predicate.value)
+          ? { where: `COALESCE(instr(lower(${name}), lower(?)) > 0, 0)`, params: [predicate.value] }
+          : null;
+      case 'includesAny': {
+        const values = predicate.values.filter((value): value is Exclude<QueryValue, null> => value !== null);
+        const placeholders = values.map(() => '?').join(', ');
+        return values.length > 0
+          ? {
+              where: `EXISTS (SELECT 1 FROM json_each(${name}) WHERE value IN (${placeholders}))`,
+              params: values.map(toSqlValue),
+            }
+          : constantFilter(false);
+      }
+    }
+  }
+
+  /**
+   * ORDER BY clause for sort keys, placing missing values as sorting in memory
+   * does; null when a field has no column or holds text other than dates,
+   * since strings are ordered with localeCompare in memory, which SQL's binary
+   * collation does not follow.
+   */
+  private orderBy(sort: SortField[]): string | null | undefined {
+    const terms: string[] = [];
+    for (const { field, direction } of sort) {
+      const column = this.columnsByField.get(field);
+      if (!column || column.array || (column.type === 'TEXT' && !column.date)) return null;
+      terms.push(
+        direction === 'desc'
+          ? `${column.name} IS NULL DESC, ${column.name} DESC`
+          : `${column.name} IS NULL, ${column.name} ASC`
+      );
+    }
+    return terms.length > 0 ? terms.join(', ') : undefined;
+  }
+
+  private createSchema(): void {
+    const columns = this.columns.map(column =>
+      column.name === 'id'
+        ? 'id TEXT PRIMARY KEY'
+        : `${column.name} ${column.type}${column.nullable ? '' : ' NOT NULL'}`
+    );
+    this.database.exec(`CREATE TABLE IF NOT EXISTS ${this.table.name} (${columns.join(', ')})`);
+    for (const index of this.table.indexes) {
+      this.database.exec(
+        `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${index.name} ` +
+          `ON ${this.table.name} (${index.columns.join(', ')})`
+      );
+    }
+  }
+}
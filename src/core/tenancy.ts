@@ -0,0 +1,188 @@
+/**
+ * Multi-tenancy - tenant ids, tenant-scoped repositories and per-tenant registries.
+ *
+ * Test scenarios:
+ * - "Find Implementations" on Repository shows TenantScopedRepository
+ * - "Find References" on DEFAULT_TENANT_ID shows models, services and the server
+ * - Rename TenantRegistry and see the composition root update
+ */
+
+import type { Entity, OperationResult, Repository } from './types.js';
+import { failure } from './utils.js';
+import { ConflictError, ForbiddenError, NotFoundError } from './errors.js';
+import type { FieldPath, Predicate, Query, StreamOptions } from './query.js';
+import { and, not } from './query.js';
+import { SerialWriter } from './jsonFile.js';
+
+/** Tenant used when a request or entity does not name one */
+export const DEFAULT_TENANT_ID = 'default';
+
+/** Lowercase letters, digits and dashes, starting with a letter or digit */
+export const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+/** Checks whether a value is a well-formed tenant id */
+export function isValidTenantId(value: unknown): value is string {
+  return typeof value === 'string' && TENANT_ID_PATTERN.test(value);
+}
+
+/** Looks up a per-tenant value, e.g. the service of a tenant */
+export type TenantResolver<V> = (tenantId: string) => V;
+
+/** A field whose value must be unique within a tenant */
+export interface UniqueConstraint<T> {
+  /** Field name used in conflict messages */
+  field: string;
+  /** Normalized value, used in conflict messages */
+  key(entity: T): string;
+  /** Predicate matching the entities holding the same value as the entity */
+  where(entity: T): Predicate<T>;
+}
+
+/**
+ * Repository decorator restricting every call to one tenant.
+ * Entities of other tenants are invisible to reads, and saving or deleting
+ * them fails, so the inner repository may be shared between tenants.
+ * Unique constraints are checked against this tenant's entities only, with
+ * saves run one at a time so concurrent saves cannot both pass the check;
+ * saves of the tenant must therefore all go through one instance.
+ */
+export class TenantScopedRepository<T extends Entity> implements Repository<T> {
+  private readonly writer = new SerialWriter();
+
+  constructor(
+    readonly tenantId: string,
+    private readonly inner: Repository<T>,
+    private readonly entityName: string,
+    private readonly constraints: UniqueConstraint<T>[] = []
+  ) {}
+
+  async findById(id: string): Promise<T | null> {
+    const entity = await this.inner.findById(id);
+    return entity && this.owns(entity) ? entity : null;
+  }
+
+  async findAll(): Promise<T[]> {
+    const entities = await this.inner.findAll();
+    return entities.filter(entity => this.owns(entity));
+  }
+
+  async find(query: Query<T> = {}): Promise<T[]> {
+    return this.inner.find({ ...query, where: and(this.ownedPredicate(), query.where) });
+  }
+
+  async count(where?: Predicate<T>): Promise<number> {
+    return this.inner.count(and(this.ownedPredicate(), where));
+  }
+
+  stream(options: StreamOptions<T> = {}): AsyncIterable<T> {
+    return this.inner.stream({ ...options, where: and(this.ownedPredicate(), options.where) });
+  }
+
+  save(entity: T): Promise<OperationResult<T>> {
+    return this.writer.run(() => this.checkedSave(entity));
+  }
+
+  async delete(id: string): Promise<OperationResult<void>> {
+    const entity = await this.findById(id);
+    if (!entity) {
+      return failure(NotFoundError.forEntity(this.entityName, id));
+    }
+    return this.inner.delete(id);
+  }
+
+  /** Saves an entity unless it belongs to another tenant or breaks a unique constraint */
+  private async checkedSave(entity: T): Promise<OperationResult<T>> {
+    if (!this.owns(entity)) {
+      return failure(new ForbiddenError(`${this.entityName} belongs to another tenant`));
+    }
+    // An id taken by another tenant is never overwritten
+    const stored = await this.inner.findById(entity.id);
+    if (stored && !this.owns(stored)) {
+      return failure(new ForbiddenError(`${this.entityName} belongs to another tenant`));
+    }
+
+    const conflict = await this.findConflict(entity);
+    if (conflict) {
+      return failure(conflict);
+    }
+    return this.inner.save(entity);
+  }
+
+  private owns(entity: T): boolean {
+    return entity.tenantId === this.tenantId;
+  }
+
+  /** Predicate matching this tenant's entities, for queries run by the inner repository */
+  private ownedPredicate(): Predicate<T> {
+    return { kind: 'compare', field: 'tenantId' as FieldPath<T>, operator: 'eq', value: this.tenantId };
+  }
+
+  /** Error for the first unique constraint another entity of the tenant already holds */
+  private async findConflict(entity: T): Promise<ConflictError | null> {
+    const others = not<T>({ kind: 'compare', field: 'id' as FieldPath<T>, operator: 'eq', value: entity.id });
+    for (const constraint of this.constraints) {
+      if ((await this.count(and(constraint.where(entity), others))) > 0) {
+        const value = constraint.key(entity);
+        return new ConflictError(`${this.entityName} with ${constraint.field} ${value} already exists`);
+      }
+    }
+    return null;
+  }
+}
+
+/** Most tenants a TenantRegistry creates when no limit is given */
+export const DEFAULT_MAX_TENANTS = 1000;
+
+/** Options for TenantRegistry */
+export interface TenantRegistryOptions {
+  /**
+   * Tenants that may be created; any other id is rejected. Without a list
+   * every well-formed id may be created, up to `maxTenants`.
+   */
+  allowed?: readonly string[];
+  /** Most tenants created (defaults to DEFAULT_MAX_TENANTS) */
+  maxTenants?: number;
+}
+
+/**
+ * Lazily creates and caches one value (e.g. a set of services) per tenant.
+ * Values are never dropped, so creation is restricted to allowed tenants
+ * and bounded by a maximum count.
+ */
+export class TenantRegistry<V> {
+  private values: Map<string, V> = new Map();
+  private readonly allowed: ReadonlySet<string> | null;
+  private readonly maxTenants: number;
+
+  constructor(
+    private readonly factory: TenantResolver<V>,
+    options: TenantRegistryOptions = {}
+  ) {
+    this.allowed = options.allowed ? new Set(options.allowed) : null;
+    this.maxTenants = options.maxTenants ?? DEFAULT_MAX_TENANTS;
+  }
+
+  /**
+   * Gets the value for a tenant, creating it on first use.
+   * @throws ForbiddenError for a tenant not allowed, or once the limit is reached
+   */
+  get(tenantId: string): V {
+    let value = this.values.get(tenantId);
+    if (value === undefined) {
+      if (this.allowed && !this.allowed.has(tenantId)) {
+        throw new ForbiddenError(`Unknown tenant: ${tenantId}`);
+      }
+      if (this.values.size >= this.maxTenants) {
+        throw new ForbiddenError('Tenant limit reached');
+      }
+      value = this.factory(tenantId);
+      this.values.set(tenantId, value);
+    }
+    return value;
+  }
+
+  /** Tenants created so far */
+  tenantIds(): string[] {
+    return Array.from(this.values.keys());
+  }
+}
@@ -8,6 +8,9 @@
  * - Rename "Entity" and see all implementations update
  */
 
+import type { AppError } from './errors.js';
+import type { Predicate, Query, StreamOptions } from './query.js';
+
 /** Base interface for all identifiable entities */
 export interface Identifiable {
   id: string;
@@ -19,8 +22,13 @@ export interface Timestamped {
   updatedAt: Date;
 }
 
+/** Mixin interface for entities owned by a tenant */
+export interface TenantOwned {
+  tenantId: string;
+}
+
 /** Combined base entity interface */
-export interface Entity extends Identifiable, Timestamped {
+export interface Entity extends Identifiable, Timestamped, TenantOwned {
   /** Indicates if this entity is active/enabled */
   isActive: boolean;
 }
@@ -29,13 +37,19 @@ export interface Entity extends Identifiable, Timestamped {
 export interface OperationResult<T> {
   success: boolean;
   data?: T;
-  error?: string;
+  error?: AppError;
 }
 
 /** Repository interface - for testing "Find Implementations" */
 export interface Repository<T extends Entity> {
   findById(id: string): Promise<T | null>;
   findAll(): Promise<T[]>;
+  /** Entities matching a query, sorted and sliced as it asks */
+  find(query?: Query<T>): Promise<T[]>;
+  /** Number of entities matching a predicate (all entities without one) */
+  count(where?: Predicate<T>): Promise<number>;
+  /** Streams the matching entities in storage order, reading them in batches */
+  stream(options?: StreamOptions<T>): AsyncIterable<T>;
   save(entity: T): Promise<OperationResult<T>>;
   delete(id: string): Promise<OperationResult<void>>;
 }
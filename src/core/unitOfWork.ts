@@ -0,0 +1,283 @@
+/**
+ * Unit of work - buffers saves and deletes across repositories and applies
+ * them together on commit, undoing the applied ones if any fails.
+ *
+ * Test scenarios:
+ * - "Find Implementations" on Repository shows the buffered repository view
+ * - "Find References" on UnitOfWork shows the services' inUnitOfWork
+ * - Rename afterCommit and see the services update
+ */
+
+import type { Entity, OperationResult, Repository } from './types.js';
+import { failure, success } from './utils.js';
+import type { AppError } from './errors.js';
+import { ConflictError, InternalError, NotFoundError, toAppError } from './errors.js';
+import type { Predicate, Query, StreamOptions } from './query.js';
+import { applyQuery, matches } from './query.js';
+
+/** Lifecycle of a unit of work */
+export type UnitOfWorkState = 'active' | 'committed' | 'rolledBack';
+
+/** Writes one pending change; resolves to the error when it fails */
+type PendingWrite = (reverts: Revert[]) => Promise<AppError | undefined>;
+
+/** Reverts a change applied during commit */
+type Revert = () => Promise<unknown>;
+
+/**
+ * Buffers writes to the repositories it tracks until commit.
+ * Reads through a tracked repository see the pending writes. On commit the
+ * final state of every changed entity is written in the order the entities
+ * were first changed; if a write fails, the applied ones are reverted in
+ * reverse order and the failure is returned, even if a revert fails too.
+ * Callbacks registered with `afterCommit` run only once every write succeeded.
+ */
+export class UnitOfWork {
+  /** Views by the repository they track */
+  private readonly views = new Map<object, { clear(): void }>();
+  private readonly writes: PendingWrite[] = [];
+  private callbacks: (() => void)[] = [];
+  private currentState: UnitOfWorkState = 'active';
+
+  get state(): UnitOfWorkState {
+    return this.currentState;
+  }
+
+  /** A view of the repository whose writes are buffered in this unit of work */
+  track<T extends Entity>(repository: Repository<T>): Repository<T> {
+    const existing = this.views.get(repository);
+    if (existing) {
+      return existing as BufferedRepository<T>;
+    }
+    const view = new BufferedRepository(repository, write => this.enqueue(write));
+    this.views.set(repository, view);
+    return view;
+  }
+
+  /** Runs the callback after a successful commit; it is dropped on rollback */
+  afterCommit(callback: () => void): void {
+    if (this.currentState === 'committed') {
+      callback();
+      return;
+    }
+    this.callbacks.push(callback);
+  }
+
+  /** Writes every pending change, reverting the applied ones if one fails */
+  async commit(): Promise<OperationResult<void>> {
+    if (this.currentState !== 'active') {
+      return failure(this.closedError());
+    }
+    const reverts: Revert[] = [];
+    for (const write of this.writes) {
+      const error = await write(reverts);
+      if (error) {
+        await revertAll(reverts);
+        this.close('rolledBack');
+        return failure(error);
+      }
+    }
+    const callbacks = this.callbacks;
+    this.close('committed');
+    callbacks.forEach(callback => callback());
+    return success(undefined);
+  }
+
+  /** Discards the pending changes and callbacks */
+  rollback(): void {
+    if (this.currentState === 'active') {
+      this.close('rolledBack');
+    }
+  }
+
+  /** Queues the write of a newly changed entity; fails once the unit of work is closed */
+  private enqueue(write: PendingWrite | undefined): OperationResult<void> {
+    if (this.currentState !== 'active') {
+      return failure(this.closedError());
+    }
+    if (write) {
+      this.writes.push(write);
+    }
+    return success(undefined);
+  }
+
+  private closedError(): ConflictError {
+    return new ConflictError(`Unit of work is already ${this.currentState}`);
+  }
+
+  private close(state: UnitOfWorkState): void {
+    this.currentState = state;
+    this.writes.length = 0;
+    this.callbacks = [];
+    this.views.forEach(view => view.clear());
+  }
+}
+
+/** Reverts applied changes newest first; a revert that fails does not stop the others */
+async function revertAll(reverts: Revert[]): Promise<void> {
+  for (const revert of [...reverts].reverse()) {
+    try {
+      await revert();
+    } catch {
+      // The write's own failure is what commit reports
+    }
+  }
+}
+
+/**
+ * Runs work in a new unit of work, committing when it succeeds and rolling
+ * back when it fails or throws.
+ */
+export async function runInUnitOfWork<T>(
+  work: (unitOfWork: UnitOfWork) => Promise<OperationResult<T>>
+): Promise<OperationResult<T>> {
+  const unitOfWork = new UnitOfWork();
+  let result: OperationResult<T>;
+  try {
+    result = await work(unitOfWork);
+  } catch (error) {
+    unitOfWork.rollback();
+    return failure(toAppError(error));
+  }
+  if (!result.success) {
+    unitOfWork.rollback();
+    return result;
+  }
+  const committed = await unitOfWork.commit();
+  return committed.success ? result : failure(committed.error ?? new InternalError());
+}
+
+/**
+ * Repository view holding the pending writes of a unit of work over an
+ * inner repository. Saves are only checked by the inner repository on
+ * commit, so a conflicting save fails the commit rather than the call.
+ */
+class BufferedRepository<T extends Entity> implements Repository<T> {
+  /** Pending state by id; null marks a pending delete */
+  private readonly pending = new Map<string, T | null>();
+
+  constructor(
+    private readonly inner: Repository<T>,
+    /** Queues the write of an entity changed for the first time (none for later changes) */
+    private readonly enqueue: (write: PendingWrite | undefined) => OperationResult<void>
+  ) {}
+
+  async findById(id: string): Promise<T | null> {
+    const pending = this.pending.get(id);
+    return pending !== undefined ? pending : this.inner.findById(id);
+  }
+
+  async findAll(): Promise<T[]> {
+    return this.find();
+  }
+
+  async find(query: Query<T> = {}): Promise<T[]> {
+    if (this.pending.size === 0) {
+      return this.inner.find(query);
+    }
+    const stored = await this.inner.find({ where: query.where });
+    return applyQuery(this.overlay(stored, query.where), { ...query, where: undefined });
+  }
+
+  async count(where?: Predicate<T>): Promise<number> {
+    if (this.pending.size === 0) {
+      return this.inner.count(where);
+    }
+    return (await this.find({ where })).length;
+  }
+
+  async *stream(options: StreamOptions<T> = {}): AsyncGenerator<T> {
+    const { where } = options;
+    const seen = new Set<string>();
+    for await (const entity of this.inner.stream(options)) {
+      seen.add(entity.id);
+      const current = this.current(entity);
+      if (current && (!where || matches(current, where))) {
+        yield current;
+      }
+    }
+    yield* this.added(seen, where);
+  }
+
+  async save(entity: T): Promise<OperationResult<T>> {
+    const queued = this.enqueue(this.writeFor(entity.id));
+    if (!queued.success) {
+      return failure(queued.error ?? new InternalError());
+    }
+    this.pending.set(entity.id, entity);
+    return success(entity);
+  }
+
+  async delete(id: string): Promise<OperationResult<void>> {
+    if (!(await this.findById(id))) {
+      return failure(NotFoundError.forEntity('Entity', id));
+    }
+    const queued = this.enqueue(this.writeFor(id));
+    if (!queued.success) {
+      return queued;
+    }
+    this.pending.set(id, null);
+    return success(undefined);
+  }
+
+  /** Drops the pending writes */
+  clear(): void {
+    this.pending.clear();
+  }
+
+  /** The commit-time write of an entity changed for the first time; none if it has changed before */
+  private writeFor(id: string): PendingWrite | undefined {
+    if (this.pending.has(id)) {
+      return undefined;
+    }
+    return async reverts => {
+      const pending = this.pending.get(id);
+      try {
+        const before = await this.inner.findById(id);
+        if (pending === undefined || (pending === null && !before)) {
+          // Created and deleted again within the unit of work
+          return undefined;
+        }
+        const result = pending ? await this.inner.save(pending) : await this.inner.delete(id);
+        if (!result.success) {
+          return result.error ?? new InternalError();
+        }
+        reverts.push(() => (before ? this.inner.save(before) : this.inner.delete(id)));
+        return undefined;
+      } catch (error) {
+        return toAppError(error);
+      }
+    };
+  }
+
+  /** The pending version of a stored entity; null when it is to be deleted */
+  private current(entity: T): T | null {
+    const pending = this.pending.get(entity.id);
+    return pending !== undefined ? pending : entity;
+  }
+
+  /** Stored matches with pending writes applied, followed by pending entities not among them */
+  private overlay(stored: T[], where?: Predicate<T>): T[] {
+    const seen = new Set<string>();
+    const merged: T[] = [];
+    for (const entity of stored) {
+      seen.add(entity.id);
+      const current = this.current(entity);
+      if (current && (!where || matches(current, where))) {
+        merged.push(current);
+      }
+    }
+    return [...merged, ...this.added(seen, where)];
+  }
+
+  /** Pending saves of entities not in `seen` that match */
+  private added(seen: Set<string>, where?: Predicate<T>): T[] {
+    const added: T[] = [];
+    for (const [id, entity] of this.pending) {
+      if (entity && !seen.has(id) && (!where || matches(entity, where))) {
+        added.push(entity);
+      }
+    }
+    return added;
+  }
+}
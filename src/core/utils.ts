@@ -8,20 +8,32 @@
  */
 
 import type { Entity, Timestamped, OperationResult } from './types.js';
+import type { AppError } from './errors.js';
+import type { DateFormatOptions, SupportedLocale } from './i18n.js';
+import { formatLocalizedDate } from './i18n.js';
+import type { Clock } from './clock.js';
+import { getClock } from './clock.js';
+import { getIdGenerator } from './ids.js';
 
-/** Generates a unique identifier */
+/** Generates a unique identifier with the active strategy (ULID unless replaced via setIdGenerator) */
 export function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  return getIdGenerator().next();
 }
 
-/** Formats a date for display */
-export function formatDate(date: Date): string {
+/**
+ * Formats a date for display: ISO `YYYY-MM-DD` by default (as in API
+ * responses), or the locale's format when a locale is given.
+ */
+export function formatDate(date: Date, locale?: SupportedLocale, options?: DateFormatOptions): string {
+  if (locale) {
+    return formatLocalizedDate(date, locale, options);
+  }
   return date.toISOString().split('T')[0] ?? '';
 }
 
 /** Creates timestamp fields for new entities */
-export function createTimestamps(): Timestamped {
-  const now = new Date();
+export function createTimestamps(clock: Clock = getClock()): Timestamped {
+  const now = clock.now();
   return {
     createdAt: now,
     updatedAt: now,
@@ -29,10 +41,10 @@ export function createTimestamps(): Timestamped {
 }
 
 /** Updates the updatedAt timestamp */
-export function touchTimestamp<T extends Timestamped>(entity: T): T {
+export function touchTimestamp<T extends Timestamped>(entity: T, clock: Clock = getClock()): T {
   return {
     ...entity,
-    updatedAt: new Date(),
+    updatedAt: clock.now(),
   };
 }
 
@@ -45,7 +57,7 @@ export function success<T>(data: T): OperationResult<T> {
 }
 
 /** Creates a failed operation result */
-export function failure<T>(error: string): OperationResult<T> {
+export function failure<T>(error: AppError): OperationResult<T> {
   return {
     success: false,
     error,
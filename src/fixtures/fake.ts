@@ -0,0 +1,132 @@
+/**
+ * Seeded fake data - realistic names, emails and text from a deterministic
+ * random source, so the same seed always produces the same data.
+ *
+ * Test scenarios:
+ * - "Find References" on FakeData shows the factories and the seeder
+ * - "Go to Definition" on seededRandom navigates to core/ids.ts
+ * - Rename pick and see every generator update
+ */
+
+import type { RandomSource } from '../core/ids.js';
+import { seededRandom } from '../core/ids.js';
+
+const FIRST_NAMES = [
+  'Ada', 'Alan', 'Amara', 'Bruno', 'Chen', 'Clara', 'Diego', 'Elena', 'Farah', 'Grace',
+  'Hiro', 'Ines', 'Jonas', 'Kemal', 'Leila', 'Marta', 'Noah', 'Olga', 'Priya', 'Quinn',
+  'Rafael', 'Sofia', 'Tomas', 'Uma', 'Viktor', 'Wen', 'Yusuf', 'Zara',
+] as const;
+
+const LAST_NAMES = [
+  'Almeida', 'Baker', 'Costa', 'Dubois', 'Eriksson', 'Fischer', 'Garcia', 'Haddad', 'Ivanova',
+  'Jensen', 'Kowalski', 'Lopez', 'Muller', 'Nakamura', 'Okafor', 'Patel', 'Rossi', 'Schmidt',
+  'Tanaka', 'Novak', 'Weber', 'Yilmaz', 'Zhang',
+] as const;
+
+const EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net', 'test.example'] as const;
+
+const WORDS = [
+  'adaptive', 'classic', 'compact', 'durable', 'everyday', 'lightweight', 'modern', 'portable',
+  'premium', 'recycled', 'smart', 'vintage', 'wireless', 'ergonomic', 'handmade', 'organic',
+  'lamp', 'jacket', 'novel', 'speaker', 'kettle', 'backpack', 'notebook', 'chair', 'headphones',
+  'blanket', 'charger', 'mug', 'guide', 'sneakers', 'monitor', 'cookbook',
+] as const;
+
+/** Generates fake data from a seeded random source */
+export class FakeData {
+  private readonly random: RandomSource;
+  private sequence = 0;
+
+  constructor(readonly seed: number = 1) {
+    this.random = seededRandom(seed);
+  }
+
+  /** Float in [0, 1) */
+  float(): number {
+    const uint32 = this.random(4).reduce((value, byte) => value * 0x100 + byte, 0);
+    return uint32 / 0x100000000;
+  }
+
+  /** Integer in [min, max] */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.float() * (max - min + 1));
+  }
+
+  /** True with the given probability */
+  bool(probability: number = 0.5): boolean {
+    return this.float() < probability;
+  }
+
+  /** One element of a non-empty list */
+  pick<T>(values: readonly T[]): T {
+    return values[this.int(0, values.length - 1)] as T;
+  }
+
+  /** Up to `count` distinct elements of a list */
+  sample<T>(values: readonly T[], count: number): T[] {
+    const remaining = [...values];
+    const picked: T[] = [];
+    while (picked.length < count && remaining.length > 0) {
+      picked.push(...remaining.splice(this.int(0, remaining.length - 1), 1));
+    }
+    return picked;
+  }
+
+  /** Next value of a counter shared by everything generated from this instance */
+  nextSequence(): number {
+    return ++this.sequence;
+  }
+
+  firstName(): string {
+    return this.pick(FIRST_NAMES);
+  }
+
+  lastName(): string {
+    return this.pick(LAST_NAMES);
+  }
+
+  fullName(): string {
+    return `${this.firstName()} ${this.lastName()}`;
+  }
+
+  /** Username derived from a name; the sequence number keeps it unique */
+  username(name: string = this.fullName()): string {
+    return `${name.toLowerCase().replace(/[^a-z]+/g, '.')}${this.nextSequence()}`;
+  }
+
+  /** Email address for a local part (a fresh unique username by default) */
+  email(localPart: string = this.username()): string {
+    return `${localPart}@${this.pick(EMAIL_DOMAINS)}`;
+  }
+
+  /** Space-separated words */
+  words(count: number): string {
+    return Array.from({ length: count }, () => this.pick(WORDS)).join(' ');
+  }
+
+  /** A capitalized sentence ending with a full stop */
+  sentence(wordCount: number = this.int(6, 12)): string {
+    const text = this.words(wordCount);
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+  }
+
+  /** Title-cased product name */
+  productName(): string {
+    return this.words(this.int(2, 3)).replace(/\b\w/g, letter => letter.toUpperCase());
+  }
+
+  /** Stock keeping unit, unique per instance */
+  sku(): string {
+    return `SKU-${String(this.nextSequence()).padStart(6, '0')}`;
+  }
+
+  /** Amount with two decimals in [min, max] */
+  amount(min: number, max: number): number {
+    return Math.round((min + this.float() * (max - min)) * 100) / 100;
+  }
+
+  /** Date between two dates */
+  date(from: Date, to: Date): Date {
+    return new Date(from.getTime() + Math.floor(this.float() * (to.getTime() - from.getTime())));
+  }
+}
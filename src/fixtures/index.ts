@@ -0,0 +1,7 @@
+/**
+ * Fixtures module barrel export.
+ */
+
+export * from './fake.js';
+export * from './factories.js';
+export * from './seed.js';
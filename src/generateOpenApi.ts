@@ -0,0 +1,17 @@
+/**
+ * Writes the OpenAPI document for the API to disk.
+ *
+ * Usage: node generateOpenApi.js [output-file]
+ * The format is YAML for `.yaml`/`.yml` files and JSON otherwise.
+ */
+
+import { writeOpenApiDocument } from './api/openapi.js';
+
+const outputPath = process.argv[2] ?? 'openapi.json';
+
+writeOpenApiDocument(outputPath)
+  .then(() => console.log(`OpenAPI document written to ${outputPath}`))
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
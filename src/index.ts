@@ -12,23 +12,29 @@ export * from './core/index.js';
 export * from './models/index.js';
 export * from './services/index.js';
 export * from './api/index.js';
+export * from './cli/index.js';
+export * from './app/index.js';
+export * from './fixtures/index.js';
 
 // Import for demo usage
-import { UserApiHandler, ProductApiHandler } from './api/handlers.js';
 import type { RequestContext } from './api/handlers.js';
+import { createApplication } from './app/application.js';
 import { ProductCategory } from './models/product.js';
-import { formatDate } from './core/utils.js';
+import { formatDate, generateId } from './core/utils.js';
+import { JsonLogger } from './core/logger.js';
 
 /** Demo function showing the full application flow */
 async function runDemo(): Promise<void> {
   console.log('=== TypeScript Refactoring Demo ===\n');
 
-  // Initialize handlers
-  const userHandler = new UserApiHandler();
-  const productHandler = new ProductApiHandler();
+  // Wire the application with a JSON-lines logger
+  const app = createApplication({ logger: new JsonLogger({ bindings: { app: 'demo' } }) });
+  await app.start();
+  const { users: userHandler, products: productHandler } = app.handlers;
 
   const context: RequestContext = {
     timestamp: new Date(),
+    correlationId: generateId(),
   };
 
   // Create a user
@@ -89,6 +95,7 @@ async function runDemo(): Promise<void> {
     console.log(`  ${category}: ${products.length} products`);
   }
 
+  await app.stop();
   console.log('\n=== Demo Complete ===');
   console.log('Run date:', formatDate(new Date()));
 }
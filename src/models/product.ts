@@ -9,6 +9,16 @@
 
 import type { Entity, Repository, OperationResult } from '../core/types.js';
 import { generateId, createTimestamps, success, failure, touchTimestamp } from '../core/utils.js';
+import { NotFoundError } from '../core/errors.js';
+import type { Predicate, Query, StreamOptions } from '../core/query.js';
+import { applyQuery, countMatching, fieldsOf, streamEntities } from '../core/query.js';
+import type { DatabaseSync } from 'node:sqlite';
+import type { SqliteTable } from '../core/sqlite.js';
+import { SqliteRepository, entityFieldsFromRow } from '../core/sqlite.js';
+import type { UniqueConstraint } from '../core/tenancy.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
+import type { SupportedLocale } from '../core/i18n.js';
+import { formatCurrency } from '../core/i18n.js';
 
 /** Product categories */
 export enum ProductCategory {
@@ -42,10 +52,12 @@ export function createProduct(
   description: string,
   sku: string,
   price: Price,
-  category: ProductCategory
+  category: ProductCategory,
+  tenantId: string = DEFAULT_TENANT_ID
 ): Product {
   return {
     id: generateId(),
+    tenantId,
     ...createTimestamps(),
     isActive: true,
     name,
@@ -58,6 +70,14 @@ export function createProduct(
   };
 }
 
+/** Condition builders for product queries */
+const productFields = fieldsOf<Product>();
+
+/** Fields unique among the products of a tenant */
+export const PRODUCT_UNIQUE_CONSTRAINTS: UniqueConstraint<Product>[] = [
+  { field: 'sku', key: product => product.sku, where: product => productFields.eq('sku', product.sku) },
+];
+
 /** In-memory product repository */
 export class InMemoryProductRepository implements Repository<Product> {
   private products: Map<string, Product> = new Map();
@@ -70,6 +90,18 @@ export class InMemoryProductRepository implements Repository<Product> {
     return Array.from(this.products.values());
   }
 
+  async find(query?: Query<Product>): Promise<Product[]> {
+    return applyQuery(Array.from(this.products.values()), query);
+  }
+
+  async count(where?: Predicate<Product>): Promise<number> {
+    return countMatching(Array.from(this.products.values()), where);
+  }
+
+  stream(options?: StreamOptions<Product>): AsyncIterable<Product> {
+    return streamEntities(this.products.values(), options);
+  }
+
   async save(product: Product): Promise<OperationResult<Product>> {
     const updated = touchTimestamp(product);
     this.products.set(updated.id, updated);
@@ -81,40 +113,114 @@ export class InMemoryProductRepository implements Repository<Product> {
       this.products.delete(id);
       return success(undefined);
     }
-    return failure(`Product with id ${id} not found`);
+    return failure(NotFoundError.forEntity('Product', id));
   }
 
   /** Find products by category */
   async findByCategory(category: ProductCategory): Promise<Product[]> {
-    return Array.from(this.products.values()).filter(p => p.category === category);
+    return this.find({ where: productFields.eq('category', category) });
   }
 
   /** Find products by SKU */
   async findBySku(sku: string): Promise<Product | null> {
-    for (const product of this.products.values()) {
-      if (product.sku === sku) {
-        return product;
-      }
-    }
-    return null;
+    return (await this.find({ where: productFields.eq('sku', sku), limit: 1 }))[0] ?? null;
+  }
+
+  /** Search products by name (case-insensitive) */
+  async searchByName(query: string): Promise<Product[]> {
+    return this.find({ where: productFields.contains('name', query) });
+  }
+
+  /** Get products with low stock */
+  async findLowStock(threshold: number): Promise<Product[]> {
+    return this.find({ where: productFields.lt('stockQuantity', threshold) });
+  }
+}
+
+/** How products are stored in SQLite; tags are a JSON array */
+export const PRODUCT_TABLE: SqliteTable<Product> = {
+  name: 'products',
+  entityName: 'Product',
+  columns: [
+    { name: 'name', field: 'name', type: 'TEXT', value: product => product.name },
+    { name: 'description', field: 'description', type: 'TEXT', value: product => product.description },
+    { name: 'sku', field: 'sku', type: 'TEXT', value: product => product.sku },
+    { name: 'price_amount', field: 'price.amount', type: 'REAL', value: product => product.price.amount },
+    {
+      name: 'price_currency',
+      field: 'price.currency',
+      type: 'TEXT',
+      value: product => product.price.currency,
+    },
+    { name: 'category', field: 'category', type: 'TEXT', value: product => product.category },
+    {
+      name: 'stock_quantity',
+      field: 'stockQuantity',
+      type: 'INTEGER',
+      value: product => product.stockQuantity,
+    },
+    {
+      name: 'tags',
+      field: 'tags',
+      type: 'TEXT',
+      array: true,
+      value: product => JSON.stringify(product.tags),
+    },
+  ],
+  indexes: [
+    { name: 'products_tenant_sku', columns: ['tenant_id', 'sku'], unique: true },
+    { name: 'products_tenant_category', columns: ['tenant_id', 'category'] },
+    { name: 'products_tenant_stock', columns: ['tenant_id', 'stock_quantity'] },
+  ],
+  fromRow: row => ({
+    ...entityFieldsFromRow(row),
+    name: String(row['name']),
+    description: String(row['description']),
+    sku: String(row['sku']),
+    price: { amount: Number(row['price_amount']), currency: String(row['price_currency']) },
+    category: row['category'] as ProductCategory,
+    stockQuantity: Number(row['stock_quantity']),
+    tags: JSON.parse(String(row['tags'])) as string[],
+  }),
+};
+
+/** SQLite product repository; finders filter in SQL */
+export class SqliteProductRepository extends SqliteRepository<Product> {
+  constructor(database: DatabaseSync, tenantId?: string) {
+    super(database, PRODUCT_TABLE, tenantId);
+  }
+
+  /** Saves a product, touching its updatedAt like the in-memory repository */
+  async save(product: Product): Promise<OperationResult<Product>> {
+    return super.save(touchTimestamp(product));
+  }
+
+  /** Find products by category */
+  async findByCategory(category: ProductCategory): Promise<Product[]> {
+    return this.find({ where: productFields.eq('category', category) });
+  }
+
+  /** Find products by SKU */
+  async findBySku(sku: string): Promise<Product | null> {
+    return (await this.find({ where: productFields.eq('sku', sku), limit: 1 }))[0] ?? null;
   }
 
   /** Search products by name (case-insensitive) */
   async searchByName(query: string): Promise<Product[]> {
-    const lowerQuery = query.toLowerCase();
-    return Array.from(this.products.values()).filter(p =>
-      p.name.toLowerCase().includes(lowerQuery)
-    );
+    return this.find({ where: productFields.contains('name', query) });
   }
 
   /** Get products with low stock */
   async findLowStock(threshold: number): Promise<Product[]> {
-    return Array.from(this.products.values()).filter(p => p.stockQuantity < threshold);
+    return this.find({ where: productFields.lt('stockQuantity', threshold) });
   }
 }
 
-/** Formats a price for display */
-export function formatPrice(price: Price): string {
+/** Formats a price for display, using the locale's currency format when one is given */
+export function formatPrice(price: Price, locale?: SupportedLocale): string {
+  if (locale) {
+    return formatCurrency(price.amount, price.currency, locale);
+  }
   return `${price.currency} ${price.amount.toFixed(2)}`;
 }
 
@@ -9,6 +9,14 @@
 
 import type { Entity, Repository, OperationResult } from '../core/types.js';
 import { generateId, createTimestamps, success, failure } from '../core/utils.js';
+import { NotFoundError } from '../core/errors.js';
+import type { Predicate, Query, StreamOptions } from '../core/query.js';
+import { applyQuery, countMatching, fieldsOf, streamEntities } from '../core/query.js';
+import type { DatabaseSync } from 'node:sqlite';
+import type { SqliteTable } from '../core/sqlite.js';
+import { SqliteRepository, entityFieldsFromRow, optionalDate } from '../core/sqlite.js';
+import type { UniqueConstraint } from '../core/tenancy.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
 
 /** User roles for authorization */
 export enum UserRole {
@@ -32,10 +40,12 @@ export function createUser(
   email: string,
   username: string,
   displayName: string,
-  role: UserRole = UserRole.Viewer
+  role: UserRole = UserRole.Viewer,
+  tenantId: string = DEFAULT_TENANT_ID
 ): User {
   return {
     id: generateId(),
+    tenantId,
     ...createTimestamps(),
     isActive: true,
     email,
@@ -45,6 +55,18 @@ export function createUser(
   };
 }
 
+/** Condition builders for user queries */
+const userFields = fieldsOf<User>();
+
+/** Fields unique among the users of a tenant; emails compare case-insensitively */
+export const USER_UNIQUE_CONSTRAINTS: UniqueConstraint<User>[] = [
+  {
+    field: 'email',
+    key: user => user.email.toLowerCase(),
+    where: user => userFields.eqIgnoreCase('email', user.email),
+  },
+];
+
 /** In-memory user repository implementation */
 export class InMemoryUserRepository implements Repository<User> {
   private users: Map<string, User> = new Map();
@@ -57,6 +79,18 @@ export class InMemoryUserRepository implements Repository<User> {
     return Array.from(this.users.values());
   }
 
+  async find(query?: Query<User>): Promise<User[]> {
+    return applyQuery(Array.from(this.users.values()), query);
+  }
+
+  async count(where?: Predicate<User>): Promise<number> {
+    return countMatching(Array.from(this.users.values()), where);
+  }
+
+  stream(options?: StreamOptions<User>): AsyncIterable<User> {
+    return streamEntities(this.users.values(), options);
+  }
+
   async save(user: User): Promise<OperationResult<User>> {
     this.users.set(user.id, user);
     return success(user);
@@ -67,22 +101,69 @@ export class InMemoryUserRepository implements Repository<User> {
       this.users.delete(id);
       return success(undefined);
     }
-    return failure(`User with id ${id} not found`);
+    return failure(NotFoundError.forEntity('User', id));
   }
 
   /** Find user by email - domain-specific method */
   async findByEmail(email: string): Promise<User | null> {
-    for (const user of this.users.values()) {
-      if (user.email === email) {
-        return user;
-      }
-    }
-    return null;
+    return (await this.find({ where: userFields.eq('email', email), limit: 1 }))[0] ?? null;
+  }
+
+  /** Find users by role */
+  async findByRole(role: UserRole): Promise<User[]> {
+    return this.find({ where: userFields.eq('role', role) });
+  }
+}
+
+/** How users are stored in SQLite */
+export const USER_TABLE: SqliteTable<User> = {
+  name: 'users',
+  entityName: 'User',
+  columns: [
+    { name: 'email', field: 'email', type: 'TEXT', value: user => user.email },
+    { name: 'username', field: 'username', type: 'TEXT', value: user => user.username },
+    { name: 'display_name', field: 'displayName', type: 'TEXT', value: user => user.displayName },
+    { name: 'role', field: 'role', type: 'TEXT', value: user => user.role },
+    {
+      name: 'last_login_at',
+      field: 'lastLoginAt',
+      type: 'TEXT',
+      nullable: true,
+      date: true,
+      value: user => user.lastLoginAt?.toISOString() ?? null,
+    },
+  ],
+  indexes: [
+    { name: 'users_tenant_email', columns: ['tenant_id', 'lower(email)'], unique: true },
+    { name: 'users_tenant_role', columns: ['tenant_id', 'role'] },
+  ],
+  fromRow: row => {
+    const user: User = {
+      ...entityFieldsFromRow(row),
+      email: String(row['email']),
+      username: String(row['username']),
+      displayName: String(row['display_name']),
+      role: row['role'] as UserRole,
+    };
+    const lastLoginAt = optionalDate(row['last_login_at']);
+    return lastLoginAt ? { ...user, lastLoginAt } : user;
+  },
+};
+
+/** SQLite user repository; finders filter in SQL */
+export class SqliteUserRepository extends SqliteRepository<User> {
+  constructor(database: DatabaseSync, tenantId?: string) {
+    super(database, USER_TABLE, tenantId);
+  }
+
+  /** Find user by email - domain-specific method */
+  async findByEmail(email: string): Promise<User | null> {
+    return (await this.find({ where: userFields.eq('email', email), limit: 1 }))[0] ?? null;
   }
 
   /** Find users by role */
   async findByRole(role: UserRole): Promise<User[]> {
-    return Array.from(this.users.values()).filter(u => u.role === role);
+    return this.find({ where: userFields.eq('role', role) });
   }
 }
 
@@ -9,14 +9,92 @@
 
 import type { Repository, OperationResult, EventHandler, EntityEvent } from '../core/types.js';
 import { failure, touchTimestamp } from '../core/utils.js';
+import { NotFoundError } from '../core/errors.js';
+import type { ListQuery, Page } from '../core/listing.js';
+import type { Predicate, StreamOptions } from '../core/query.js';
+import { and, fieldsOf, findPage } from '../core/query.js';
+import type { BulkOptions, BulkReport, BulkStep } from '../core/bulk.js';
+import { executeBulk } from '../core/bulk.js';
+import type { UnitOfWork } from '../core/unitOfWork.js';
+import type { Logger } from '../core/logger.js';
+import { silentLogger } from '../core/logger.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
+import { getClock } from '../core/clock.js';
+import type { FlagSubject } from '../core/flags.js';
+import { FlagRegistry } from '../core/flags.js';
+import type { SupportedLocale } from '../core/i18n.js';
 import type { Product, Price } from '../models/product.js';
 import { createProduct, ProductCategory, formatPrice, isInStock } from '../models/product.js';
 
+/** Filters and paging for listing products */
+export interface ProductListQuery extends ListQuery {
+  category?: ProductCategory;
+  isActive?: boolean;
+  /** Matches products carrying at least one of these tags */
+  tags?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+/** Fields products can be sorted by */
+export const PRODUCT_SORT_FIELDS = [
+  'createdAt', 'updatedAt', 'name', 'sku', 'category', 'price.amount', 'stockQuantity',
+] as const;
+
+/** Condition builders for product queries */
+const productFields = fieldsOf<Product>();
+
+/** Predicate matching the products a list query filters for */
+export function productListPredicate(query: ProductListQuery): Predicate<Product> {
+  return and(
+    query.category !== undefined ? productFields.eq('category', query.category) : undefined,
+    query.isActive !== undefined ? productFields.eq('isActive', query.isActive) : undefined,
+    query.tags?.length ? productFields.includesAny('tags', query.tags) : undefined,
+    query.minPrice !== undefined ? productFields.gte('price.amount', query.minPrice) : undefined,
+    query.maxPrice !== undefined ? productFields.lte('price.amount', query.maxPrice) : undefined
+  );
+}
+
+/** Input for creating a product */
+export interface ProductInput {
+  name: string;
+  description: string;
+  sku: string;
+  price: Price;
+  category: ProductCategory;
+}
+
+/** A stock change for one product */
+export interface StockUpdate {
+  id: string;
+  quantity: number;
+}
+
+/** A price change for one product */
+export interface PriceUpdate {
+  id: string;
+  price: Price;
+}
+
 /** Product service for managing products */
 export class ProductService {
   private eventHandlers: EventHandler<Product>[] = [];
+  /** Unit of work this service's writes are buffered in, if any */
+  private unitOfWork: UnitOfWork | null = null;
 
-  constructor(private readonly repository: Repository<Product>) {}
+  constructor(
+    private readonly repository: Repository<Product>,
+    private readonly logger: Logger = silentLogger,
+    /** Tenant that entities created by this service belong to */
+    readonly tenantId: string = DEFAULT_TENANT_ID,
+    /** Feature flags the service's behaviour may depend on */
+    readonly flags: FlagRegistry = new FlagRegistry()
+  ) {}
+
+  /** Whether a boolean flag is on for a subject of this service's tenant */
+  isFlagEnabled(key: string, subject: FlagSubject = {}, fallback: boolean = false): boolean {
+    return this.flags.isEnabled(key, { ...subject, tenantId: this.tenantId }, fallback);
+  }
 
   /** Creates a new product */
   async createProduct(
@@ -26,7 +104,7 @@ export class ProductService {
     price: Price,
     category: ProductCategory
   ): Promise<OperationResult<Product>> {
-    const product = createProduct(name, description, sku, price, category);
+    const product = createProduct(name, description, sku, price, category, this.tenantId);
     const result = await this.repository.save(product);
     
     if (result.success && result.data) {
@@ -50,11 +128,28 @@ export class ProductService {
     return this.repository.findAll();
   }
 
+  /** Streams products in storage order, reading them in batches */
+  streamProducts(options?: StreamOptions<Product>): AsyncIterable<Product> {
+    return this.repository.stream(options);
+  }
+
+  /** Lists products with filtering, sorting and pagination */
+  async listProducts(query: ProductListQuery = {}): Promise<Page<Product>> {
+    return findPage(this.repository, productListPredicate(query), query);
+  }
+
+  /** Gets active products whose stock is below the threshold */
+  async getLowStockProducts(threshold: number): Promise<Product[]> {
+    return this.repository.find({
+      where: and(productFields.eq('isActive', true), productFields.lt('stockQuantity', threshold)),
+    });
+  }
+
   /** Updates product stock quantity */
   async updateProductStock(id: string, quantity: number): Promise<OperationResult<Product>> {
     const product = await this.repository.findById(id);
     if (!product) {
-      return failure(`Product with id ${id} not found`);
+      return failure(NotFoundError.forEntity('Product', id));
     }
 
     const updated = touchTimestamp({
@@ -75,7 +170,7 @@ export class ProductService {
   async updateProductPrice(id: string, price: Price): Promise<OperationResult<Product>> {
     const product = await this.repository.findById(id);
     if (!product) {
-      return failure(`Product with id ${id} not found`);
+      return failure(NotFoundError.forEntity('Product', id));
     }
 
     const updated = touchTimestamp({
@@ -90,7 +185,7 @@ export class ProductService {
   async addProductTags(id: string, tags: string[]): Promise<OperationResult<Product>> {
     const product = await this.repository.findById(id);
     if (!product) {
-      return failure(`Product with id ${id} not found`);
+      return failure(NotFoundError.forEntity('Product', id));
     }
 
     const uniqueTags = [...new Set([...product.tags, ...tags])];
@@ -106,7 +201,7 @@ export class ProductService {
   async deactivateProduct(id: string): Promise<OperationResult<Product>> {
     const product = await this.repository.findById(id);
     if (!product) {
-      return failure(`Product with id ${id} not found`);
+      return failure(NotFoundError.forEntity('Product', id));
     }
 
     const deactivated = touchTimestamp({
@@ -133,12 +228,80 @@ export class ProductService {
       }
       return result;
     }
-    return failure(`Product with id ${id} not found`);
+    return failure(NotFoundError.forEntity('Product', id));
+  }
+
+  /** Creates many products; events are emitted once the batch is committed */
+  async bulkCreateProducts(
+    inputs: ProductInput[],
+    options: BulkOptions = {}
+  ): Promise<BulkReport<Product>> {
+    const report = await executeBulk(inputs, async input => {
+      const product = createProduct(
+        input.name,
+        input.description,
+        input.sku,
+        input.price,
+        input.category,
+        this.tenantId
+      );
+      const result = await this.repository.save(product);
+      return {
+        result,
+        undo: async () => {
+          await this.repository.delete(product.id);
+        },
+      };
+    }, options);
+    this.emitCommitted('create', report);
+    return report;
+  }
+
+  /** Updates the stock of many products */
+  async bulkUpdateStock(
+    updates: StockUpdate[],
+    options: BulkOptions = {}
+  ): Promise<BulkReport<Product>> {
+    const report = await executeBulk(
+      updates,
+      ({ id, quantity }) => this.applyChange(id, product => ({ ...product, stockQuantity: quantity })),
+      options
+    );
+    this.emitCommitted('update', report);
+    return report;
+  }
+
+  /** Updates the price of many products */
+  async bulkUpdatePrice(
+    updates: PriceUpdate[],
+    options: BulkOptions = {}
+  ): Promise<BulkReport<Product>> {
+    const report = await executeBulk(
+      updates,
+      ({ id, price }) => this.applyChange(id, product => ({ ...product, price })),
+      options
+    );
+    this.emitCommitted('update', report);
+    return report;
+  }
+
+  /** Deactivates many products */
+  async bulkDeactivateProducts(
+    ids: string[],
+    options: BulkOptions = {}
+  ): Promise<BulkReport<Product>> {
+    const report = await executeBulk(
+      ids,
+      id => this.applyChange(id, product => ({ ...product, isActive: false })),
+      options
+    );
+    this.emitCommitted('update', report);
+    return report;
   }
 
   /** Gets formatted price for a product */
-  getFormattedPrice(product: Product): string {
-    return formatPrice(product.price);
+  getFormattedPrice(product: Product, locale?: SupportedLocale): string {
+    return formatPrice(product.price, locale);
   }
 
   /** Checks if product is available for purchase */
@@ -146,32 +309,103 @@ export class ProductService {
     return isInStock(product);
   }
 
+  /**
+   * This service with its writes buffered in a unit of work. Its change
+   * events wait for the commit and are dropped on rollback; handlers are
+   * shared with this service.
+   */
+  inUnitOfWork(unitOfWork: UnitOfWork): ProductService {
+    const service = new ProductService(
+      unitOfWork.track(this.repository),
+      this.logger,
+      this.tenantId,
+      this.flags
+    );
+    service.eventHandlers = this.eventHandlers;
+    service.unitOfWork = unitOfWork;
+    return service;
+  }
+
   /** Subscribe to product events */
   onEvent(handler: EventHandler<Product>): void {
     this.eventHandlers.push(handler);
   }
 
+  /** Applies a change to a product, remembering the original for rollback */
+  private async applyChange(
+    id: string,
+    change: (product: Product) => Product
+  ): Promise<BulkStep<Product>> {
+    const product = await this.repository.findById(id);
+    if (!product) {
+      return { result: failure(NotFoundError.forEntity('Product', id)) };
+    }
+
+    const result = await this.repository.save(touchTimestamp(change(product)));
+    return {
+      result,
+      undo: async () => {
+        await this.repository.save(product);
+      },
+    };
+  }
+
+  /** Emits events for the succeeded items of a committed bulk operation */
+  private emitCommitted(type: EntityEvent<Product>['type'], report: BulkReport<Product>): void {
+    if (!report.committed) {
+      this.logger.warn('Bulk operation rolled back', { event: type, failed: report.failed });
+      return;
+    }
+    for (const item of report.results) {
+      if (item.status === 'succeeded' && item.data) {
+        this.emitEvent(type, item.data);
+      }
+    }
+  }
+
   /** Emit an event to all handlers */
   private emitEvent(type: EntityEvent<Product>['type'], entity: Product): void {
     const event: EntityEvent<Product> = {
       type,
       entity,
-      timestamp: new Date(),
+      timestamp: getClock().now(),
+    };
+    const dispatch = (): void => {
+      this.logger.log(type === 'read' ? 'debug' : 'info', `Product ${type} event`, { productId: entity.id });
+      this.eventHandlers.forEach(handler => handler(event));
     };
-    this.eventHandlers.forEach(handler => handler(event));
+    if (type === 'read') {
+      dispatch();
+    } else {
+      this.afterCommit(dispatch);
+    }
+  }
+
+  /** Runs the effect of a write now, or once the unit of work it is buffered in commits */
+  private afterCommit(effect: () => void): void {
+    if (this.unitOfWork) {
+      this.unitOfWork.afterCommit(effect);
+    } else {
+      effect();
+    }
   }
 }
 
-/** Calculates total value of products */
-export function calculateInventoryValue(products: Product[]): number {
-  return products.reduce((total, p) => total + p.price.amount * p.stockQuantity, 0);
+/** Products belonging to a tenant, or all products when no tenant is given */
+function ofTenant(products: Product[], tenantId?: string): Product[] {
+  return tenantId === undefined ? products : products.filter(p => p.tenantId === tenantId);
 }
 
-/** Groups products by category */
-export function groupByCategory(products: Product[]): Map<ProductCategory, Product[]> {
+/** Calculates total value of products, optionally only those of one tenant */
+export function calculateInventoryValue(products: Product[], tenantId?: string): number {
+  return ofTenant(products, tenantId).reduce((total, p) => total + p.price.amount * p.stockQuantity, 0);
+}
+
+/** Groups products by category, optionally only those of one tenant */
+export function groupByCategory(products: Product[], tenantId?: string): Map<ProductCategory, Product[]> {
   const grouped = new Map<ProductCategory, Product[]>();
   
-  for (const product of products) {
+  for (const product of ofTenant(products, tenantId)) {
     const existing = grouped.get(product.category) ?? [];
     existing.push(product);
     grouped.set(product.category, existing);
@@ -179,3 +413,49 @@ export function groupByCategory(products: Product[]): Map<ProductCategory, Produ
   
   return grouped;
 }
+
+/** Totals of the products in one category */
+export interface CategorySummary {
+  products: number;
+  stockQuantity: number;
+  inventoryValue: number;
+}
+
+/**
+ * Calculates the total value of streamed products, optionally only those of
+ * one tenant, holding one product at a time.
+ */
+export async function calculateInventoryValueFromStream(
+  products: AsyncIterable<Product>,
+  tenantId?: string
+): Promise<number> {
+  let total = 0;
+  for await (const product of products) {
+    if (tenantId === undefined || product.tenantId === tenantId) {
+      total += product.price.amount * product.stockQuantity;
+    }
+  }
+  return total;
+}
+
+/**
+ * Summarizes streamed products per category, optionally only those of one
+ * tenant; the bounded-memory counterpart of groupByCategory.
+ */
+export async function summarizeCategoriesFromStream(
+  products: AsyncIterable<Product>,
+  tenantId?: string
+): Promise<Map<ProductCategory, CategorySummary>> {
+  const summaries = new Map<ProductCategory, CategorySummary>();
+  for await (const product of products) {
+    if (tenantId !== undefined && product.tenantId !== tenantId) {
+      continue;
+    }
+    const summary = summaries.get(product.category) ?? { products: 0, stockQuantity: 0, inventoryValue: 0 };
+    summary.products += 1;
+    summary.stockQuantity += product.stockQuantity;
+    summary.inventoryValue += product.price.amount * product.stockQuantity;
+    summaries.set(product.category, summary);
+  }
+  return summaries;
+}
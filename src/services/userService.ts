@@ -9,14 +9,70 @@
 
 import type { Repository, OperationResult, EventHandler, EntityEvent } from '../core/types.js';
 import { failure, touchTimestamp } from '../core/utils.js';
+import { ForbiddenError, NotFoundError } from '../core/errors.js';
+import type { ListQuery, Page } from '../core/listing.js';
+import type { Predicate } from '../core/query.js';
+import { and, fieldsOf, findPage } from '../core/query.js';
+import type { BulkOptions, BulkReport } from '../core/bulk.js';
+import { executeBulk } from '../core/bulk.js';
+import type { UnitOfWork } from '../core/unitOfWork.js';
+import type { Logger } from '../core/logger.js';
+import { silentLogger } from '../core/logger.js';
+import { DEFAULT_TENANT_ID } from '../core/tenancy.js';
+import { getClock } from '../core/clock.js';
+import type { FlagSubject } from '../core/flags.js';
+import { FlagRegistry } from '../core/flags.js';
+import type { SupportedLocale } from '../core/i18n.js';
+import { translate } from '../core/i18n.js';
 import type { User } from '../models/user.js';
 import { createUser, UserRole, isAdmin, canEdit } from '../models/user.js';
 
+/** Filters and paging for listing users */
+export interface UserListQuery extends ListQuery {
+  role?: UserRole;
+  isActive?: boolean;
+}
+
+/** Fields users can be sorted by */
+export const USER_SORT_FIELDS = ['createdAt', 'updatedAt', 'email', 'username', 'displayName', 'role'] as const;
+
+/** Condition builders for user queries */
+const userFields = fieldsOf<User>();
+
+/** Predicate matching the users a list query filters for */
+export function userListPredicate(query: UserListQuery): Predicate<User> {
+  return and(
+    query.role !== undefined ? userFields.eq('role', query.role) : undefined,
+    query.isActive !== undefined ? userFields.eq('isActive', query.isActive) : undefined
+  );
+}
+
+/** Input for registering a user */
+export interface UserRegistration {
+  email: string;
+  username: string;
+  displayName: string;
+}
+
 /** User service for managing users */
 export class UserService {
   private eventHandlers: EventHandler<User>[] = [];
+  /** Unit of work this service's writes are buffered in, if any */
+  private unitOfWork: UnitOfWork | null = null;
 
-  constructor(private readonly repository: Repository<User>) {}
+  constructor(
+    private readonly repository: Repository<User>,
+    private readonly logger: Logger = silentLogger,
+    /** Tenant that entities created by this service belong to */
+    readonly tenantId: string = DEFAULT_TENANT_ID,
+    /** Feature flags the service's behaviour may depend on */
+    readonly flags: FlagRegistry = new FlagRegistry()
+  ) {}
+
+  /** Whether a boolean flag is on for a subject of this service's tenant */
+  isFlagEnabled(key: string, subject: FlagSubject = {}, fallback: boolean = false): boolean {
+    return this.flags.isEnabled(key, { ...subject, tenantId: this.tenantId }, fallback);
+  }
 
   /** Registers a new user */
   async registerUser(
@@ -24,7 +80,7 @@ export class UserService {
     username: string,
     displayName: string
   ): Promise<OperationResult<User>> {
-    const user = createUser(email, username, displayName, UserRole.Viewer);
+    const user = createUser(email, username, displayName, UserRole.Viewer, this.tenantId);
     const result = await this.repository.save(user);
     
     if (result.success && result.data) {
@@ -48,6 +104,11 @@ export class UserService {
     return this.repository.findAll();
   }
 
+  /** Lists users with filtering, sorting and pagination */
+  async listUsers(query: UserListQuery = {}): Promise<Page<User>> {
+    return findPage(this.repository, userListPredicate(query), query);
+  }
+
   /** Updates a user's profile */
   async updateUserProfile(
     id: string,
@@ -55,7 +116,7 @@ export class UserService {
   ): Promise<OperationResult<User>> {
     const existing = await this.repository.findById(id);
     if (!existing) {
-      return failure(`User with id ${id} not found`);
+      return failure(NotFoundError.forEntity('User', id));
     }
 
     const updated = touchTimestamp({
@@ -80,12 +141,18 @@ export class UserService {
   ): Promise<OperationResult<User>> {
     const actor = await this.repository.findById(actorId);
     if (!actor || !isAdmin(actor)) {
-      return failure('Only admins can change user roles');
+      this.logger.warn('Role change denied', { actorId, targetUserId, role: newRole });
+      return failure(new ForbiddenError('Only admins can change user roles'));
     }
 
+    return this.assignUserRole(targetUserId, newRole);
+  }
+
+  /** Sets a user's role without a permission check (for trusted callers such as the admin CLI) */
+  async assignUserRole(targetUserId: string, newRole: UserRole): Promise<OperationResult<User>> {
     const target = await this.repository.findById(targetUserId);
     if (!target) {
-      return failure(`User with id ${targetUserId} not found`);
+      return failure(NotFoundError.forEntity('User', targetUserId));
     }
 
     const updated = touchTimestamp({
@@ -93,14 +160,18 @@ export class UserService {
       role: newRole,
     });
 
-    return this.repository.save(updated);
+    const result = await this.repository.save(updated);
+    if (result.success) {
+      this.afterCommit(() => this.logger.info('User role changed', { userId: targetUserId, role: newRole }));
+    }
+    return result;
   }
 
   /** Deactivates a user account */
   async deactivateUser(id: string): Promise<OperationResult<User>> {
     const user = await this.repository.findById(id);
     if (!user) {
-      return failure(`User with id ${id} not found`);
+      return failure(NotFoundError.forEntity('User', id));
     }
 
     const deactivated = touchTimestamp({
@@ -127,7 +198,45 @@ export class UserService {
       }
       return result;
     }
-    return failure(`User with id ${id} not found`);
+    return failure(NotFoundError.forEntity('User', id));
+  }
+
+  /** Registers many users; events are emitted once the batch is committed */
+  async bulkRegisterUsers(
+    registrations: UserRegistration[],
+    options: BulkOptions = {}
+  ): Promise<BulkReport<User>> {
+    const report = await executeBulk(registrations, async ({ email, username, displayName }) => {
+      const user = createUser(email, username, displayName, UserRole.Viewer, this.tenantId);
+      const result = await this.repository.save(user);
+      return {
+        result,
+        undo: async () => {
+          await this.repository.delete(user.id);
+        },
+      };
+    }, options);
+    this.emitCommitted('create', report);
+    return report;
+  }
+
+  /** Deactivates many users */
+  async bulkDeactivateUsers(ids: string[], options: BulkOptions = {}): Promise<BulkReport<User>> {
+    const report = await executeBulk<string, User>(ids, async id => {
+      const user = await this.repository.findById(id);
+      if (!user) {
+        return { result: failure(NotFoundError.forEntity('User', id)) };
+      }
+      const result = await this.repository.save(touchTimestamp({ ...user, isActive: false }));
+      return {
+        result,
+        undo: async () => {
+          await this.repository.save(user);
+        },
+      };
+    }, options);
+    this.emitCommitted('update', report);
+    return report;
   }
 
   /** Checks if user can perform edit operations */
@@ -135,19 +244,66 @@ export class UserService {
     return canEdit(user);
   }
 
+  /**
+   * This service with its writes buffered in a unit of work. Its change
+   * events wait for the commit and are dropped on rollback; handlers are
+   * shared with this service.
+   */
+  inUnitOfWork(unitOfWork: UnitOfWork): UserService {
+    const service = new UserService(
+      unitOfWork.track(this.repository),
+      this.logger,
+      this.tenantId,
+      this.flags
+    );
+    service.eventHandlers = this.eventHandlers;
+    service.unitOfWork = unitOfWork;
+    return service;
+  }
+
   /** Subscribe to user events */
   onEvent(handler: EventHandler<User>): void {
     this.eventHandlers.push(handler);
   }
 
+  /** Emits events for the succeeded items of a committed bulk operation */
+  private emitCommitted(type: EntityEvent<User>['type'], report: BulkReport<User>): void {
+    if (!report.committed) {
+      this.logger.warn('Bulk operation rolled back', { event: type, failed: report.failed });
+      return;
+    }
+    for (const item of report.results) {
+      if (item.status === 'succeeded' && item.data) {
+        this.emitEvent(type, item.data);
+      }
+    }
+  }
+
   /** Emit an event to all handlers */
   private emitEvent(type: EntityEvent<User>['type'], entity: User): void {
     const event: EntityEvent<User> = {
       type,
       entity,
-      timestamp: new Date(),
+      timestamp: getClock().now(),
+    };
+    const dispatch = (): void => {
+      this.logger.log(type === 'read' ? 'debug' : 'info', `User ${type} event`, { userId: entity.id });
+      this.eventHandlers.forEach(handler => handler(event));
     };
-    this.eventHandlers.forEach(handler => handler(event));
+    if (type === 'read') {
+      dispatch();
+    } else {
+      this.afterCommit(dispatch);
+    }
+  }
+
+  /** Runs the effect of a write now, or once the unit of work it is buffered in commits */
+  private afterCommit(effect: () => void): void {
+    if (this.unitOfWork) {
+      this.unitOfWork.afterCommit(effect);
+    } else {
+      effect();
+    }
   }
 }
 
@@ -157,7 +313,8 @@ export function authenticateUser(user: User, password: string): boolean {
   return user.isActive && password.length >= 8;
 }
 
-/** Gets user display info */
-export function getUserDisplayInfo(user: User): string {
-  return `${user.displayName} (${user.email}) - ${user.role}`;
+/** Gets user display info, with the role translated when a locale is given */
+export function getUserDisplayInfo(user: User, locale?: SupportedLocale): string {
+  const role = locale ? translate(`role.${user.role}`, locale, {}, user.role) : user.role;
+  return `${user.displayName} (${user.email}) - ${role}`;
 }
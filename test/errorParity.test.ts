@@ -0,0 +1,92 @@
+/**
+ * REST and JSON-RPC error parity - a failing call reports the same error
+ * code, message and HTTP status over both transports.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Application } from '../src/app/application.js';
+import { createApplication } from '../src/app/application.js';
+
+/** What a REST call answered */
+interface RestError {
+  status: number;
+  body: { code?: string; message?: string; errors?: unknown };
+}
+
+/** The error member of a JSON-RPC response */
+interface RpcError {
+  code: number;
+  message: string;
+  data?: { code?: string; httpStatus?: number; errors?: unknown };
+}
+
+describe('REST and JSON-RPC errors', () => {
+  let app: Application;
+  let baseUrl: string;
+
+  before(async () => {
+    app = createApplication({ server: { port: 0 }, tenants: { allowed: ['acme'] } });
+    await app.start();
+    baseUrl = `http://127.0.0.1:${app.port()}`;
+  });
+
+  after(async () => {
+    await app.stop();
+  });
+
+  const rest = async (
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<RestError> => {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: { 'content-type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as RestError['body'] };
+  };
+
+  const rpc = async (
+    method: string,
+    params: Record<string, unknown>,
+    headers: Record<string, string> = {}
+  ): Promise<RpcError> => {
+    const response = await fetch(`${baseUrl}/rpc`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    const payload = (await response.json()) as { error?: RpcError };
+    assert.ok(payload.error, 'expected a JSON-RPC error');
+    return payload.error;
+  };
+
+  const assertSameError = (restError: RestError, rpcError: RpcError, status: number) => {
+    assert.equal(restError.status, status);
+    assert.equal(rpcError.data?.httpStatus, restError.status);
+    assert.equal(rpcError.data?.code, restError.body.code);
+    assert.equal(rpcError.message, restError.body.message);
+    assert.deepEqual(rpcError.data?.errors, restError.body.errors);
+  };
+
+  it('rejects an unknown tenant with 403', async () => {
+    const headers = { 'x-tenant-id': 'unknown' };
+    const restError = await rest('GET', '/products', undefined, headers);
+    assertSameError(restError, await rpc('products.list', {}, headers), 403);
+  });
+
+  it('reports a missing product with 404', async () => {
+    const restError = await rest('GET', '/products/missing');
+    assertSameError(restError, await rpc('products.get', { id: 'missing' }), 404);
+  });
+
+  it('reports invalid input with 400 and the same field errors', async () => {
+    const registration = { email: 'not-an-email', username: 'x', displayName: '' };
+    const restError = await rest('POST', '/users', registration);
+    assert.ok(Array.isArray(restError.body.errors) && restError.body.errors.length > 0);
+    assertSameError(restError, await rpc('users.register', registration), 400);
+  });
+});
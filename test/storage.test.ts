@@ -0,0 +1,84 @@
+/**
+ * Storage equivalence - the SQLite repository answers queries exactly as the
+ * in-memory one does: the same matches, in the same order, with the same counts.
+ *
+ * Runs only where node:sqlite exists (Node 22 and later).
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isBuiltin } from 'node:module';
+import type { Query } from '../src/core/query.js';
+import { fieldsOf, not, or } from '../src/core/query.js';
+import { openSqliteDatabase } from '../src/core/sqlite.js';
+import type { Product } from '../src/models/product.js';
+import {
+  InMemoryProductRepository,
+  ProductCategory,
+  SqliteProductRepository,
+} from '../src/models/product.js';
+import { createFactories } from '../src/fixtures/factories.js';
+
+/** Names whose order differs between localeCompare and binary collation */
+const NAMES = [
+  'Zebra lamp',
+  'apple crate',
+  'Éclair tin',
+  'eagle kite',
+  'Banana stand',
+  'banjo case',
+  'Ämber jar',
+];
+
+const product = fieldsOf<Product>();
+
+const QUERIES: Record<string, Query<Product>> = {
+  'all, in storage order': {},
+  'a numeric comparison': { where: product.gt('stockQuantity', 100) },
+  'a nested field': { where: product.lte('price.amount', 50) },
+  'an ASCII substring': { where: product.contains('name', 'an') },
+  'a non-ASCII substring': { where: product.contains('name', 'éc') },
+  'a string comparison': { where: product.gt('name', 'apple') },
+  'a case-insensitive match': { where: product.eqIgnoreCase('name', 'APPLE CRATE') },
+  'tags': { where: product.includesAny('tags', ['sale', 'eco']) },
+  'or and not': {
+    where: or(product.eq('category', ProductCategory.Books), not(product.gt('stockQuantity', 50))),
+  },
+  'names ascending': { sort: [{ field: 'name', direction: 'asc' }] },
+  'names descending, one page': { sort: [{ field: 'name', direction: 'desc' }], limit: 3, offset: 2 },
+  'stock, then name': {
+    sort: [
+      { field: 'stockQuantity', direction: 'desc' },
+      { field: 'name', direction: 'asc' },
+    ],
+  },
+  'creation time': { sort: [{ field: 'createdAt', direction: 'desc' }], limit: 4 },
+};
+
+const skip = !isBuiltin('node:sqlite') && 'needs node:sqlite';
+
+describe('SQLite and in-memory product storage', { skip }, () => {
+  const products = createFactories(7).products.buildList(NAMES.length, index => ({
+    name: NAMES[index],
+    createdAt: new Date(Date.UTC(2026, 0, 1 + index)),
+  }));
+
+  const seeded = async () => {
+    const sqlite = new SqliteProductRepository(await openSqliteDatabase());
+    const memory = new InMemoryProductRepository();
+    for (const entity of products) {
+      assert.ok((await sqlite.save(entity)).success);
+      assert.ok((await memory.save(entity)).success);
+    }
+    return { sqlite, memory };
+  };
+
+  for (const [name, query] of Object.entries(QUERIES)) {
+    it(`finds the same products for ${name}`, async () => {
+      const { sqlite, memory } = await seeded();
+      const ids = (found: Product[]) => found.map(entity => entity.id);
+      assert.deepEqual(ids(await sqlite.find(query)), ids(await memory.find(query)));
+      assert.equal(await sqlite.count(query.where), await memory.count(query.where));
+    });
+  }
+});